@@ -0,0 +1,17 @@
+/**
+ * Export threads, company_info and mega_list to backups/<timestamp>/
+ *
+ * Usage: npm run db:backup
+ */
+import 'dotenv/config';
+
+import { exportSnapshot } from '../src/lib/backup';
+
+const { snapshot, folder, counts } = await exportSnapshot();
+
+console.log(`💾 Saved snapshot ${snapshot} to ${folder}`);
+for (const [table, count] of Object.entries(counts)) {
+    console.log(`   ${table}: ${count} rows`);
+}
+
+process.exit(0);
@@ -0,0 +1,59 @@
+/**
+ * Check the catalog tables for data quality problems (see src/lib/catalogLint.ts)
+ *
+ * Usage: npm run catalog:lint -- [--fix] [--json] [--snapshot=<name>]
+ * - --fix: apply the proposed fixes to the database
+ * - --json: print the full report as JSON
+ * - --snapshot: lint the files of a snapshot in backups/ instead of the database (read-only)
+ * Exits with code 1 while errors remain.
+ */
+import 'dotenv/config';
+
+import { readSnapshot } from '../src/lib/backup';
+import { buildLintReport, fixCatalog, lintCatalog, lintCatalogRows, type CatalogIssue } from '../src/lib/catalogLint';
+
+const args = process.argv.slice(2);
+const fix = args.includes('--fix');
+const json = args.includes('--json');
+const snapshot = args.find(arg => arg.startsWith('--snapshot='))?.slice('--snapshot='.length);
+
+if (fix && snapshot) {
+    console.error('❌ --fix only works on the database, not on a snapshot');
+    process.exit(1);
+}
+
+if (fix) {
+    const { fixed, rows } = await fixCatalog();
+    console.log(`🔧 Applied ${fixed} fix(es) to ${rows} row(s)`);
+    if (fixed > 0) {
+        console.log('   Call POST /api/admin/embeddings to re-embed the fixed rows');
+    }
+}
+
+let report;
+if (snapshot) {
+    const data = await readSnapshot(snapshot, ['company_info', 'mega_list']);
+    const issues: CatalogIssue[] = [];
+    for (const table of ['company_info', 'mega_list'] as const) {
+        issues.push(...lintCatalogRows(table, data[table] || []));
+    }
+    report = buildLintReport(issues);
+} else {
+    report = await lintCatalog();
+}
+
+if (json) {
+    console.log(JSON.stringify(report, null, 2));
+} else {
+    for (const issue of report.issues) {
+        const fixNote = 'fix' in issue ? ` -> ${JSON.stringify(issue.fix)}` : '';
+        console.log(`${issue.severity === 'error' ? '❌' : '⚠️ '} ${issue.table}/${issue.name} [${issue.rule}] ${issue.message}${fixNote}`);
+    }
+
+    console.log(`\n${report.issues.length} issue(s), ${report.fixable} fixable${report.fixable > 0 && !fix && !snapshot ? ' (run with --fix to apply)' : ''}`);
+    for (const [rule, count] of Object.entries(report.counts)) {
+        if (count > 0) console.log(`   ${rule}: ${count}`);
+    }
+}
+
+process.exit(report.issues.some(issue => issue.severity === 'error') ? 1 : 0);
@@ -0,0 +1,13 @@
+/**
+ * Carry company_info and mega_list over into the relational catalog (providers, categories, products, tags)
+ *
+ * Usage: npm run catalog:migrate (after `npx drizzle-kit push`; safe to re-run)
+ */
+import 'dotenv/config';
+
+import { syncCatalogProducts } from '../src/lib/products';
+
+const { products, removed } = await syncCatalogProducts();
+
+console.log(`✅ Synced ${products} product(s), removed ${removed} without catalog rows`);
+process.exit(0);
@@ -0,0 +1,51 @@
+/**
+ * Restore (or seed) the database from a snapshot in backups/
+ *
+ * Usage: npm run db:restore -- [snapshot] [--dry-run] [--tables=company_info,mega_list]
+ * Without a snapshot name the latest one is used. `npm run db:seed` restores the latest snapshot.
+ */
+import 'dotenv/config';
+
+import { backupTableNames, listSnapshots, restoreSnapshot, type BackupTable } from '../src/lib/backup';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const tablesArg = args.find(arg => arg.startsWith('--tables='));
+const snapshot = args.find(arg => !arg.startsWith('--')) || (await listSnapshots()).at(-1);
+
+if (!snapshot) {
+    console.error('❌ No snapshots found in backups/');
+    process.exit(1);
+}
+
+const tables = tablesArg
+    ? tablesArg.slice('--tables='.length).split(',').map(table => table.trim()) as BackupTable[]
+    : backupTableNames;
+
+const unknownTables = tables.filter(table => !backupTableNames.includes(table));
+if (unknownTables.length > 0) {
+    console.error(`❌ Unknown table(s): ${unknownTables.join(', ')} (expected ${backupTableNames.join(', ')})`);
+    process.exit(1);
+}
+
+const result = await restoreSnapshot(snapshot, { dryRun, tables });
+
+console.log(`${dryRun ? '🔍 Dry run of' : '♻️ Restored'} snapshot ${snapshot}`);
+for (const [table, diff] of Object.entries(result.tables)) {
+    console.log(`   ${table}: ${diff.insert.length} to insert, ${diff.update.length} to update, ${diff.unchanged} unchanged, ${diff.onlyInDatabase} only in database`);
+
+    if (dryRun) {
+        for (const key of diff.insert) {
+            console.log(`      + ${key}`);
+        }
+        for (const { key, changes } of diff.update) {
+            console.log(`      ~ ${key} (${Object.keys(changes).join(', ')})`);
+        }
+    }
+}
+
+if (!dryRun && tables.some(table => table !== 'threads')) {
+    console.log('   Call POST /api/admin/embeddings to re-embed the restored catalog rows');
+}
+
+process.exit(0);
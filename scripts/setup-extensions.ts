@@ -0,0 +1,21 @@
+/**
+ * Create the Postgres extensions the app uses (pg_trgm for fuzzy catalog search)
+ *
+ * Usage: npm run db:extensions (run before `npx drizzle-kit push` on a fresh database,
+ * with a role that may create extensions; the app itself never runs this DDL)
+ */
+import 'dotenv/config';
+
+import { sql } from 'drizzle-orm';
+
+import { db } from '../src/db/initialize';
+
+try {
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+} catch (error) {
+    console.error('❌ Could not create pg_trgm; the schema push and catalog search need it:', error instanceof Error ? error.message : error);
+    process.exit(1);
+}
+
+console.log('✅ pg_trgm is available');
+process.exit(0);
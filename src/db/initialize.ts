@@ -1,5 +1,13 @@
 import { drizzle } from 'drizzle-orm/vercel-postgres';
+import { drizzle as drizzleNodePostgres } from 'drizzle-orm/node-postgres';
 
-const db = drizzle();
+// Vercel Postgres in deployments; plain node-postgres for a local database
+// (localhost URL or DB_DRIVER=pg), e.g. one seeded from backups/ with `npm run db:seed`
+const connectionString = process.env.POSTGRES_URL || '';
+const useNodePostgres = process.env.DB_DRIVER === 'pg' || /^postgres(ql)?:\/\/([^@/]*@)?(localhost|127\.0\.0\.1)(:\d+)?\//.test(connectionString);
+
+const db = useNodePostgres
+    ? (drizzleNodePostgres(connectionString) as unknown as ReturnType<typeof drizzle>)
+    : drizzle();
 
 export { db };
\ No newline at end of file
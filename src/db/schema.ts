@@ -1,4 +1,6 @@
-import { pgTable, text, timestamp, jsonb, boolean, integer, numeric } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, jsonb, boolean, integer, numeric, index, primaryKey, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import type { PricingRate, RelationKind, StackRecommendation, TagKind, ThreadMessage, UserRole } from '../lib/types';
 
 /**
   * Threads Table Schema
@@ -17,15 +19,30 @@ const threadsTable = pgTable('threads', {
     title: text('title').notNull().default(''),
 
     // Thread data containing messages and metadata
-    // Structure: { messages: [{ role: 'system' | 'user' | 'assistant', content: string }] }
-    thread: jsonb('thread').notNull().$type<{ messages: Array<{ role: string; content: string }> }>(),
+    // Structure: { messages: ThreadMessage[], activeMessageId?: string, stack?: StackRecommendation }
+    // Messages are AI SDK model messages: user, assistant (text and tool calls) and tool (tool results).
+    // Each has an id and a parent id, so edits and regenerations branch off as siblings; the
+    // conversation shown is the path to activeMessageId. Older threads store a plain list without ids
+    thread: jsonb('thread').notNull().$type<{ messages: ThreadMessage[]; activeMessageId?: string | null; stack?: StackRecommendation | null }>(),
 
-    // Cost tracking in dollars (e.g., 2.16 for $2.16)
-    cost: numeric('cost_dollars', { precision: 10, scale: 4 }).notNull().default('0'),
+    // Provider and model chosen for the thread (see src/lib/providers.ts), reused on later turns
+    provider: text('provider'),
+    model: text('model'),
 
-    // Whether the thread is publicly accessible
+    // Mode chosen for the thread (see src/lib/modes.ts)
+    mode: text('mode'),
+
+    // Cost tracking in dollars (e.g., 2.16 for $2.16), the sum of the thread's message_usage costs;
+    // same scale as message_usage.cost so calls under $0.0001 still add up
+    cost: numeric('cost_dollars', { precision: 12, scale: 6 }).notNull().default('0'),
+
+    // Whether the thread is shared (readable by anyone with its share link)
     isPublic: boolean('is_public').notNull().default(false),
 
+    // Unguessable token in the share link (/share/[token]), separate from the thread ID;
+    // null while the thread isn't shared. Stopping sharing clears it, which revokes old links
+    shareToken: text('share_token').unique(),
+
     // Whether this is a development/test thread
     isDev: boolean('is_dev').notNull().default(false),
 
@@ -36,13 +53,42 @@ const threadsTable = pgTable('threads', {
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+/**
+  * Weighted full-text document for catalog search (A ranks above B, B above C)
+  *
+  * Shared by the GIN indexes below and by src/lib/catalogSearch.ts so the
+  * query expression matches the indexed one. The GIN trigram indexes need the
+  * pg_trgm extension (`npm run db:extensions`).
+  */
+export function searchDocument(weighted: Array<[AnyColumn, 'A' | 'B' | 'C']>): SQL {
+    const vectors = weighted.map(([column, weight]) => sql`setweight(to_tsvector('english', coalesce(${column}, '')), ${sql.raw(`'${weight}'`)})`);
+    return sql`(${sql.join(vectors, sql` || `)})`;
+}
+
+export function megaListSearchDocument(columns: { name: AnyColumn; type: AnyColumn; subtype: AnyColumn }): SQL {
+    return searchDocument([[columns.name, 'A'], [columns.type, 'B'], [columns.subtype, 'B']]);
+}
+
+export function companyInfoSearchDocument(columns: { name: AnyColumn; provider: AnyColumn; subcategory: AnyColumn; description: AnyColumn; keyfeature: AnyColumn }): SQL {
+    return searchDocument([
+        [columns.name, 'A'],
+        [columns.provider, 'B'],
+        [columns.subcategory, 'B'],
+        [columns.description, 'C'],
+        [columns.keyfeature, 'C'],
+    ]);
+}
+
 const megaListTable = pgTable('mega_list', {
     name: text('name').primaryKey(),
     type: text('type').notNull().default(''),
     subtype: text('subtype'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
-});
+}, (table) => [
+    index('mega_list_search_idx').using('gin', megaListSearchDocument(table)),
+    index('mega_list_name_trgm_idx').using('gin', table.name.op('gin_trgm_ops')),
+]);
 
 const companyInfoTable = pgTable('company_info', {
     name: text('product_name').primaryKey(),
@@ -53,6 +99,241 @@ const companyInfoTable = pgTable('company_info', {
     documentation: text('documentation').notNull().default(''),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+    index('company_info_search_idx').using('gin', companyInfoSearchDocument(table)),
+    index('company_info_name_trgm_idx').using('gin', table.name.op('gin_trgm_ops')),
+]);
+
+/**
+  * Relational Catalog Schema
+  *
+  * Links mega_list and company_info into products with a provider, a category
+  * and tags (see src/lib/products.ts). Descriptions and documentation stay in
+  * the catalog tables; a product points at its company_info and/or mega_list
+  * row (renames follow the row, deleting both rows removes the product).
+  */
+const providersTable = pgTable('providers', {
+    // Slug of the name, e.g. "aws"
+    id: text('id').primaryKey(),
+    name: text('name').notNull().unique(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+const categoriesTable = pgTable('categories', {
+    // Slug of the name, with the parent's slug for subcategories, e.g. "database" or "database/hosts"
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    parentId: text('parent_id').references((): AnyPgColumn => categoriesTable.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+const productsTable = pgTable('products', {
+    // Slug of the name, e.g. "neon-postgres"
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    providerId: text('provider_id').references(() => providersTable.id, { onDelete: 'set null' }),
+    categoryId: text('category_id').references(() => categoriesTable.id, { onDelete: 'set null' }),
+
+    // Catalog rows describing the product
+    companyInfoName: text('company_info_name').unique().references(() => companyInfoTable.name, { onDelete: 'set null', onUpdate: 'cascade' }),
+    megaListName: text('mega_list_name').unique().references(() => megaListTable.name, { onDelete: 'set null', onUpdate: 'cascade' }),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+const tagsTable = pgTable('tags', {
+    // e.g. "free-tier", "open-source", "region-eu"
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    kind: text('kind').notNull().$type<TagKind>(),
+});
+
+const productTagsTable = pgTable('product_tags', {
+    productId: text('product_id').notNull().references(() => productsTable.id, { onDelete: 'cascade' }),
+    tagId: text('tag_id').notNull().references(() => tagsTable.id, { onDelete: 'cascade' }),
+
+    // 'inferred' tags are recomputed from the catalog text on every sync; 'manual' ones are kept
+    source: text('source').notNull().default('manual').$type<'inferred' | 'manual'>(),
+}, (table) => [
+    primaryKey({ columns: [table.productId, table.tagId] }),
+]);
+
+/**
+  * Product Relations Table Schema
+  *
+  * Curated edges between products, checked by the checkStackCompatibility tool
+  * (see src/lib/productRelations.ts). 'requires' points from the product to what
+  * it needs; the other kinds apply both ways and are stored once, with the
+  * smaller product id first.
+  */
+const productRelationsTable = pgTable('product_relations', {
+    fromProductId: text('from_product_id').notNull().references(() => productsTable.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+    toProductId: text('to_product_id').notNull().references(() => productsTable.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+
+    // 'integrates_with' | 'alternative_to' | 'requires' | 'conflicts_with'
+    kind: text('kind').notNull().$type<RelationKind>(),
+
+    // Why the relation holds, shown to the model (e.g. "Official Prisma adapter")
+    notes: text('notes').notNull().default(''),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+    primaryKey({ columns: [table.fromProductId, table.toProductId, table.kind] }),
+]);
+
+/**
+  * Pricing Tiers Table Schema
+  *
+  * A product's plans for the estimateStackCost tool (see src/lib/pricing.ts):
+  * a flat monthly price plus metered rates per billing dimension. A rate without
+  * a unit price is a hard limit of the plan, e.g. a free tier's 50,000 MAU.
+  */
+const pricingTiersTable = pgTable('pricing_tiers', {
+    productId: text('product_id').notNull().references(() => productsTable.id, { onDelete: 'cascade', onUpdate: 'cascade' }),
+
+    // Plan name as the vendor calls it, e.g. "Free" or "Pro"
+    name: text('name').notNull(),
+
+    // Flat price per month in dollars (0 for free tiers)
+    monthlyPrice: numeric('monthly_price_dollars', { precision: 10, scale: 2 }).notNull().default('0'),
+
+    rates: jsonb('rates').notNull().default([]).$type<PricingRate[]>(),
+
+    notes: text('notes').notNull().default(''),
+
+    // Pricing page the tier was taken from
+    sourceUrl: text('source_url').notNull().default(''),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+    primaryKey({ columns: [table.productId, table.name] }),
+]);
+
+/**
+  * Catalog Embeddings Table Schema
+  *
+  * One embedding per catalog row (company_info or mega_list) and embedding
+  * model, for semantic search (see src/lib/catalogEmbeddings.ts). Vectors are
+  * stored as JSON and compared in-process with cosine similarity.
+  */
+const catalogEmbeddingsTable = pgTable('catalog_embeddings', {
+    // Catalog table and row name (company_info.product_name or mega_list.name)
+    catalogTable: text('catalog_table').notNull().$type<'company_info' | 'mega_list'>(),
+    name: text('name').notNull(),
+
+    // Embedding model as "provider:model", e.g. "local:hash-512"
+    model: text('model').notNull(),
+
+    // SHA-256 of the embedded text, to find rows whose content changed
+    contentHash: text('content_hash').notNull(),
+
+    embedding: jsonb('embedding').notNull().$type<number[]>(),
+
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+    primaryKey({ columns: [table.catalogTable, table.name, table.model] }),
+]);
+
+/**
+  * Documentation Cache Table Schema
+  *
+  * Page text fetched by the getPageContent tool, keyed by URL and shared across
+  * threads (see src/lib/documentation.ts). Entries are refetched after
+  * expires_at; in offline mode they are served however old they are.
+  */
+const documentationCacheTable = pgTable('documentation_cache', {
+    url: text('url').primaryKey(),
+    title: text('title').notNull().default(''),
+    text: text('text').notNull().default(''),
+
+    // Fetcher that produced the entry: 'http' or a search provider, e.g. 'exa'
+    source: text('source').notNull(),
+
+    fetchedAt: timestamp('fetched_at').notNull().defaultNow(),
+    expiresAt: timestamp('expires_at').notNull(),
+});
+
+/**
+  * Message Usage Table Schema
+  *
+  * One row per model call billed to a thread: each chat reply (all tool steps
+  * combined, with a per-step breakdown), title generation and stack extraction.
+  * Rows keep the owner's email so spending survives thread deletion.
+  */
+const messageUsageTable = pgTable('message_usage', {
+    id: text('id').primaryKey(),
+
+    // Thread the call was made for (null once the thread is deleted)
+    threadId: text('thread_id').references(() => threadsTable.id, { onDelete: 'set null' }),
+
+    // User the spending is attributed to
+    email: text('email'),
+
+    // Generate request the call belonged to
+    requestId: text('request_id').notNull(),
+
+    // What the call was for: 'message' | 'title' | 'stack'
+    kind: text('kind').notNull(),
+
+    provider: text('provider').notNull(),
+    model: text('model').notNull(),
+
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    cachedInputTokens: integer('cached_input_tokens').notNull().default(0),
+    totalTokens: integer('total_tokens').notNull().default(0),
+
+    // Per-step token counts for multi-step (tool calling) replies
+    steps: jsonb('steps').notNull().default([]).$type<Array<{ inputTokens: number; outputTokens: number }>>(),
+
+    // Cost in dollars, computed from config.modelPricing
+    cost: numeric('cost_dollars', { precision: 12, scale: 6 }).notNull().default('0'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+/**
+  * Users Table Schema
+  *
+  * Accounts for the local auth providers (email/password and magic link).
+  * Password hash is null for users who only ever signed in by magic link.
+  * Role is 'user' or 'admin' (admins can edit the catalog under /admin).
+  */
+const usersTable = pgTable('users', {
+    id: text('id').primaryKey(),
+    email: text('email').notNull().unique(),
+    name: text('name').notNull().default(''),
+    passwordHash: text('password_hash'),
+    role: text('role').notNull().default('user').$type<UserRole>(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+/**
+  * Sessions Table Schema
+  *
+  * The session cookie holds a random token; only its SHA-256 hash is stored here.
+  */
+const sessionsTable = pgTable('sessions', {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+/**
+  * Magic Link Tokens Table Schema
+  *
+  * Single-use sign-in tokens (hashed, like sessions).
+  */
+const magicLinkTokensTable = pgTable('magic_link_tokens', {
+    id: text('id').primaryKey(),
+    email: text('email').notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
-export { threadsTable, megaListTable, companyInfoTable };
\ No newline at end of file
+export { threadsTable, messageUsageTable, megaListTable, companyInfoTable, providersTable, categoriesTable, productsTable, tagsTable, productTagsTable, productRelationsTable, pricingTiersTable, catalogEmbeddingsTable, documentationCacheTable, usersTable, sessionsTable, magicLinkTokensTable };
@@ -0,0 +1,8 @@
+/// <reference types="astro/client" />
+
+declare namespace App {
+    interface Locals {
+        // Set by src/middleware.ts; null when the request has no valid session
+        user: import('./lib/types').SessionUser | null;
+    }
+}
@@ -0,0 +1,35 @@
+/**
+  * Auth Provider Registry
+  *
+  * Sign-in methods are registered here and enabled through config.auth.providers.
+  * To add a provider, implement AuthProvider (see ../types.ts) and add it to the registry.
+  */
+
+import config from '../config';
+import type { AuthProvider } from '../types';
+import passwordProvider from './password';
+import magicLinkProvider from './magicLink';
+
+const authProviders: Record<string, AuthProvider> = {
+    [passwordProvider.name]: passwordProvider,
+    [magicLinkProvider.name]: magicLinkProvider,
+};
+
+/**
+  * Get an enabled auth provider by name
+  *
+  * @returns The provider, or null if it is unknown or disabled in config
+  */
+export function getAuthProvider(name: string): AuthProvider | null {
+    if (!config.auth.providers.includes(name)) {
+        return null;
+    }
+
+    return authProviders[name] || null;
+}
+
+export { authProviders };
+export * from './session';
+export * from './roles';
+export { registerWithPassword } from './password';
+export { verifyMagicLink } from './magicLink';
@@ -0,0 +1,107 @@
+/**
+  * Magic Link Auth Provider
+  *
+  * Emails a single-use sign-in link through Resend (config.auth.mail). Without
+  * a RESEND_API_KEY the provider is only enabled in development, where links
+  * are written to the server log (and returned to the browser), which keeps
+  * sign-in working offline. Links are never logged in production: anyone who
+  * can read the log could sign in as the user.
+  */
+
+import { eq } from 'drizzle-orm';
+
+import { db } from '../../db/initialize';
+import { magicLinkTokensTable } from '../../db/schema';
+import config from '../config';
+import isValidEmail from '../validateEmail';
+import type { AuthProvider, SessionUser } from '../types';
+import { generateToken, hashToken } from './session';
+import { findOrCreateUser, normalizeEmail, toSessionUser } from './users';
+
+/**
+  * Deliver a magic link to the user
+  *
+  * @throws If no mail transport is configured outside development, or sending fails
+  */
+async function deliverMagicLink(email: string, link: string): Promise<void> {
+    const { resendApiKey, from } = config.auth.mail;
+
+    if (!resendApiKey) {
+        if (!import.meta.env.DEV) {
+            throw new Error('No mail transport configured for magic links (set RESEND_API_KEY)');
+        }
+        console.log(`✉️ Magic link for ${email}: ${link}`);
+        return;
+    }
+
+    const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${resendApiKey}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+            from,
+            to: email,
+            subject: 'Your BuildLoom sign-in link',
+            text: `Sign in to BuildLoom with this link (valid for ${config.auth.magicLinkMaxAgeMinutes} minutes):\n\n${link}\n\nIf you did not ask to sign in, you can ignore this email.`,
+        }),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Sending the magic link failed: HTTP ${response.status} ${await response.text()}`);
+    }
+}
+
+/**
+  * Exchange a magic link token for a user
+  *
+  * Tokens are single-use: the row is deleted whether or not it has expired.
+  *
+  * @param token - The token from the magic link
+  * @returns The signed-in user, or null if the token is invalid or expired
+  */
+export async function verifyMagicLink(token: string): Promise<SessionUser | null> {
+    if (!token) {
+        return null;
+    }
+
+    const [row] = await db
+        .delete(magicLinkTokensTable)
+        .where(eq(magicLinkTokensTable.id, hashToken(token)))
+        .returning();
+
+    if (!row || row.expiresAt.getTime() < Date.now()) {
+        return null;
+    }
+
+    const user = await findOrCreateUser(row.email);
+    return toSessionUser(user);
+}
+
+const magicLinkProvider: AuthProvider = {
+    name: 'magic-link',
+    authenticate: async ({ email }, { origin }) => {
+        if (!email || !isValidEmail(email)) {
+            return { status: 'error', error: 'A valid email is required' };
+        }
+
+        const token = generateToken();
+        await db.insert(magicLinkTokensTable).values({
+            id: hashToken(token),
+            email: normalizeEmail(email),
+            expiresAt: new Date(Date.now() + config.auth.magicLinkMaxAgeMinutes * 60 * 1000),
+        });
+
+        const link = `${origin}/api/auth/magic-link?token=${encodeURIComponent(token)}`;
+        await deliverMagicLink(email, link);
+
+        return {
+            status: 'pending',
+            message: 'Check your email for a sign-in link.',
+            ...(import.meta.env.DEV ? { link } : {}),
+        };
+    },
+};
+
+export default magicLinkProvider;
@@ -0,0 +1,93 @@
+/**
+  * Email/Password Auth Provider
+  *
+  * Passwords are hashed with scrypt from node:crypto, so this works fully offline.
+  * Stored format: scrypt$<salt>$<hash> (hex encoded)
+  */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+import config from '../config';
+import isValidEmail from '../validateEmail';
+import type { AuthProvider, AuthResult } from '../types';
+import { createUser, findUserByEmail, toSessionUser } from './users';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+  * Hash a password for storage
+  */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+  * Check a password against a stored hash
+  */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [scheme, saltHex, hashHex] = storedHash.split('$');
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+        return false;
+    }
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(expected, actual);
+}
+
+/**
+  * Register a new email/password account
+  *
+  * @returns The new user, or an error if the input is invalid or the email is taken
+  */
+export async function registerWithPassword(email: string, password: string, name = ''): Promise<AuthResult> {
+    if (!email || !isValidEmail(email)) {
+        return { status: 'error', error: 'A valid email is required' };
+    }
+
+    if (!password || password.length < config.auth.minPasswordLength) {
+        return { status: 'error', error: `Password must be at least ${config.auth.minPasswordLength} characters` };
+    }
+
+    const existing = await findUserByEmail(email);
+    if (existing) {
+        return { status: 'error', error: 'An account with this email already exists' };
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    const user = await createUser(email, { name, passwordHash });
+
+    return {
+        status: 'authenticated',
+        user: toSessionUser(user),
+    };
+}
+
+const passwordProvider: AuthProvider = {
+    name: 'password',
+    authenticate: async ({ email, password }) => {
+        if (!email || !password) {
+            return { status: 'error', error: 'Email and password are required' };
+        }
+
+        const user = await findUserByEmail(email);
+
+        // Same error for unknown users and wrong passwords
+        if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+            return { status: 'error', error: 'Invalid email or password' };
+        }
+
+        return {
+            status: 'authenticated',
+            user: toSessionUser(user),
+        };
+    },
+};
+
+export default passwordProvider;
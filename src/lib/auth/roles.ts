@@ -0,0 +1,43 @@
+/**
+  * Roles
+  *
+  * Admin checks shared by the middleware (for /admin pages) and the admin API routes.
+  */
+
+import type { SessionUser } from '../types';
+
+/**
+  * Whether a user has the admin role
+  */
+export function isAdmin(user: SessionUser | null | undefined): boolean {
+    return user?.role === 'admin';
+}
+
+/**
+  * Guard for admin API routes
+  *
+  * @returns An error Response (401/403) to return as-is, or null if the user is an admin
+  */
+export function requireAdmin(user: SessionUser | null | undefined): Response | null {
+    if (!user) {
+        return new Response(
+            JSON.stringify({ error: 'Authentication required' }),
+            {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    if (!isAdmin(user)) {
+        return new Response(
+            JSON.stringify({ error: 'Admin access required' }),
+            {
+                status: 403,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    return null;
+}
@@ -0,0 +1,111 @@
+/**
+  * Session Management
+  *
+  * Creates, validates and deletes cookie-backed sessions.
+  * The cookie holds a random token; the database only stores its SHA-256 hash.
+  */
+
+import type { AstroCookies } from 'astro';
+import { createHash, randomBytes } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+
+import { db } from '../../db/initialize';
+import { sessionsTable, usersTable } from '../../db/schema';
+import config from '../config';
+import type { SessionUser } from '../types';
+
+/**
+  * Generate a random URL-safe token
+  */
+export function generateToken(): string {
+    return randomBytes(32).toString('base64url');
+}
+
+/**
+  * Hash a token for storage (sessions and magic links are never stored in plain text)
+  */
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+  * Create a session for a user
+  *
+  * @param userId - The user to sign in
+  * @returns The session token (to be stored in the cookie) and its expiry
+  */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + config.auth.sessionMaxAgeDays * 24 * 60 * 60 * 1000);
+
+    await db.insert(sessionsTable).values({
+        id: hashToken(token),
+        userId,
+        expiresAt,
+    });
+
+    return { token, expiresAt };
+}
+
+/**
+  * Look up the user for a session token
+  *
+  * @param token - The token from the session cookie
+  * @returns The signed-in user, or null if the session is missing or expired
+  */
+export async function validateSession(token: string): Promise<SessionUser | null> {
+    const sessionId = hashToken(token);
+
+    const rows = await db
+        .select({
+            expiresAt: sessionsTable.expiresAt,
+            id: usersTable.id,
+            email: usersTable.email,
+            name: usersTable.name,
+            role: usersTable.role,
+        })
+        .from(sessionsTable)
+        .innerJoin(usersTable, eq(sessionsTable.userId, usersTable.id))
+        .where(eq(sessionsTable.id, sessionId))
+        .limit(1);
+
+    if (rows.length === 0) {
+        return null;
+    }
+
+    const { expiresAt, ...user } = rows[0];
+
+    if (expiresAt.getTime() < Date.now()) {
+        await db.delete(sessionsTable).where(eq(sessionsTable.id, sessionId));
+        return null;
+    }
+
+    return user;
+}
+
+/**
+  * Delete a session (sign out)
+  */
+export async function deleteSession(token: string): Promise<void> {
+    await db.delete(sessionsTable).where(eq(sessionsTable.id, hashToken(token)));
+}
+
+/**
+  * Set the session cookie
+  */
+export function setSessionCookie(cookies: AstroCookies, token: string, expiresAt: Date): void {
+    cookies.set(config.auth.sessionCookie, token, {
+        path: '/',
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: import.meta.env.PROD,
+        expires: expiresAt,
+    });
+}
+
+/**
+  * Clear the session cookie
+  */
+export function clearSessionCookie(cookies: AstroCookies): void {
+    cookies.delete(config.auth.sessionCookie, { path: '/' });
+}
@@ -0,0 +1,75 @@
+/**
+  * User Accounts
+  *
+  * Lookup and creation helpers shared by the auth providers.
+  */
+
+import { eq } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+import { db } from '../../db/initialize';
+import { usersTable } from '../../db/schema';
+import config from '../config';
+import type { SessionUser } from '../types';
+
+export type User = typeof usersTable.$inferSelect;
+
+/**
+  * Normalise an email address for storage and comparison
+  */
+export function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+  * Reduce a user row to what is exposed to pages and API routes
+  */
+export function toSessionUser(user: User): SessionUser {
+    return { id: user.id, email: user.email, name: user.name, role: user.role };
+}
+
+/**
+  * Find a user by email
+  */
+export async function findUserByEmail(email: string): Promise<User | null> {
+    const users = await db
+        .select()
+        .from(usersTable)
+        .where(eq(usersTable.email, normalizeEmail(email)))
+        .limit(1);
+
+    return users[0] || null;
+}
+
+/**
+  * Create a user
+  *
+  * Emails listed in config.auth.adminEmails get the admin role.
+  *
+  * @param email - The user's email (normalised before storing)
+  * @param values - Optional name and password hash
+  */
+export async function createUser(
+    email: string,
+    values: { name?: string; passwordHash?: string | null } = {}
+): Promise<User> {
+    const [user] = await db
+        .insert(usersTable)
+        .values({
+            id: nanoid(),
+            email: normalizeEmail(email),
+            name: values.name || '',
+            passwordHash: values.passwordHash ?? null,
+            role: config.auth.adminEmails.includes(normalizeEmail(email)) ? 'admin' : 'user',
+        })
+        .returning();
+
+    return user;
+}
+
+/**
+  * Find a user by email, creating one if it does not exist yet
+  */
+export async function findOrCreateUser(email: string): Promise<User> {
+    return (await findUserByEmail(email)) || (await createUser(email));
+}
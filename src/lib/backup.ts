@@ -0,0 +1,319 @@
+/**
+  * Backup & Restore
+  *
+  * Exports the threads, company_info and mega_list tables to a timestamped
+  * snapshot folder under backups/ (one JSON file per table, rows keyed by
+  * database column name) and restores or seeds from any snapshot.
+  *
+  * Restoring upserts by primary key: new rows are inserted, changed rows are
+  * updated, and rows that only exist in the database are left alone. A dry run
+  * returns the diff without writing anything. Restored catalog rows are then
+  * synced into the relational catalog (products.ts).
+  *
+  * Used by scripts/backup.ts, scripts/restore.ts and /api/admin/backup. The
+  * scripts run with tsx, which can't load config.ts (it globs the tools through
+  * Vite), so nothing here may import config.
+  */
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getTableColumns, sql } from 'drizzle-orm';
+
+import { db } from '../db/initialize';
+import { companyInfoTable, megaListTable, threadsTable } from '../db/schema';
+import { syncCatalogProducts } from './products';
+
+export type BackupTable = 'threads' | 'company_info' | 'mega_list';
+
+export interface TableDiff {
+    // Primary keys of snapshot rows missing from the database
+    insert: string[];
+    // Snapshot rows whose content differs from the database (timestamps are ignored)
+    update: Array<{ key: string; changes: Record<string, { from: unknown; to: unknown }> }>;
+    unchanged: number;
+    // Database rows missing from the snapshot (kept as they are)
+    onlyInDatabase: number;
+}
+
+export interface RestoreResult {
+    snapshot: string;
+    dryRun: boolean;
+    tables: Partial<Record<BackupTable, TableDiff>>;
+}
+
+// Tables in restore order, with the field used as primary key
+const backupTables = {
+    threads: { table: threadsTable, key: 'id' },
+    company_info: { table: companyInfoTable, key: 'name' },
+    mega_list: { table: megaListTable, key: 'name' },
+} as const;
+
+export const backupTableNames = Object.keys(backupTables) as BackupTable[];
+
+// Not compared when diffing: they change on every write
+const timestampFields = ['createdAt', 'updatedAt'];
+
+const SNAPSHOT_NAME = /^[\w-]+$/;
+
+/**
+  * Folder that holds the snapshots (backups/ in the project root)
+  */
+export function getBackupDir(): string {
+    return path.resolve(process.cwd(), 'backups');
+}
+
+/**
+  * Snapshot folder name for a date, e.g. 2026-05-01T03-18-39
+  */
+export function getSnapshotName(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 19).replace(/:/g, '-');
+}
+
+/**
+  * List snapshot folder names, oldest first
+  */
+export async function listSnapshots(): Promise<string[]> {
+    try {
+        const entries = await readdir(getBackupDir(), { withFileTypes: true });
+        return entries
+            .filter(entry => entry.isDirectory() && SNAPSHOT_NAME.test(entry.name))
+            .map(entry => entry.name)
+            .sort();
+    } catch {
+        return [];
+    }
+}
+
+/**
+  * Resolve a snapshot name to its folder, rejecting anything outside backups/
+  */
+function getSnapshotDir(snapshot: string): string {
+    if (!SNAPSHOT_NAME.test(snapshot)) {
+        throw new Error(`Invalid snapshot name: ${snapshot}`);
+    }
+    return path.join(getBackupDir(), snapshot);
+}
+
+/**
+  * Convert a row from field names to database column names (the file format)
+  */
+function toColumnRow(table: BackupTable, row: Record<string, unknown>): Record<string, unknown> {
+    const columns = getTableColumns(backupTables[table].table);
+    return Object.fromEntries(
+        Object.entries(columns).map(([field, column]) => [column.name, row[field] ?? null])
+    );
+}
+
+/**
+  * Convert a row from the file format to field names, parsing timestamps
+  * Columns the table does not have (e.g. from an older schema) are dropped.
+  */
+function toFieldRow(table: BackupTable, row: Record<string, unknown>): Record<string, unknown> {
+    const columns = getTableColumns(backupTables[table].table);
+    const fieldRow: Record<string, unknown> = {};
+
+    for (const [field, column] of Object.entries(columns)) {
+        if (!(column.name in row)) {
+            continue;
+        }
+        const value = row[column.name];
+        fieldRow[field] = column.dataType === 'date' && value !== null ? new Date(value as string) : value;
+    }
+
+    return fieldRow;
+}
+
+/**
+  * JSON with sorted object keys, so jsonb values compare equal regardless of key order
+  */
+function stableStringify(value: unknown): string {
+    if (value instanceof Date) {
+        return JSON.stringify(value.toISOString());
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value).sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+/**
+  * Read every row of a table
+  */
+async function readTable(table: BackupTable): Promise<Record<string, unknown>[]> {
+    return await db.select().from(backupTables[table].table) as Record<string, unknown>[];
+}
+
+/**
+  * Export the tables to a new timestamped snapshot folder
+  *
+  * The files are written to a temporary folder (which listSnapshots ignores) that is
+  * renamed once every table is written, so a failed export never leaves a partial
+  * snapshot behind for restore/seed to pick as the latest.
+  *
+  * @returns The snapshot name, its folder and the row count per table
+  */
+export async function exportSnapshot(): Promise<{ snapshot: string; folder: string; counts: Record<BackupTable, number> }> {
+    const snapshot = getSnapshotName();
+    const folder = getSnapshotDir(snapshot);
+    const tempFolder = path.join(getBackupDir(), `.${snapshot}.tmp`);
+
+    const counts = {} as Record<BackupTable, number>;
+
+    try {
+        await mkdir(tempFolder, { recursive: true });
+
+        for (const table of backupTableNames) {
+            const rows = await readTable(table);
+            const fileRows = rows.map(row => toColumnRow(table, row));
+            await writeFile(path.join(tempFolder, `${table}.json`), JSON.stringify(fileRows, null, 2) + '\n');
+            counts[table] = rows.length;
+        }
+
+        await rename(tempFolder, folder);
+    } catch (error) {
+        await rm(tempFolder, { recursive: true, force: true });
+        throw error;
+    }
+
+    return { snapshot, folder, counts };
+}
+
+/**
+  * Read the table files of a snapshot
+  *
+  * @param tables - Tables to read; a missing file for any of them is an error
+  */
+export async function readSnapshot(
+    snapshot: string,
+    tables: BackupTable[] = backupTableNames
+): Promise<Partial<Record<BackupTable, Record<string, unknown>[]>>> {
+    const folder = getSnapshotDir(snapshot);
+    const data: Partial<Record<BackupTable, Record<string, unknown>[]>> = {};
+
+    for (const table of backupTableNames.filter(name => tables.includes(name))) {
+        let contents: string;
+        try {
+            contents = await readFile(path.join(folder, `${table}.json`), 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                throw new Error(`Snapshot ${snapshot} has no ${table}.json`);
+            }
+            throw error;
+        }
+
+        const rows = JSON.parse(contents);
+        if (!Array.isArray(rows)) {
+            throw new Error(`${snapshot}/${table}.json must contain a JSON array`);
+        }
+        data[table] = rows.map(row => toFieldRow(table, row));
+    }
+
+    return data;
+}
+
+/**
+  * Compare snapshot rows with the database rows of a table
+  */
+function diffTable(table: BackupTable, snapshotRows: Record<string, unknown>[], databaseRows: Record<string, unknown>[]): TableDiff {
+    const { key } = backupTables[table];
+    const existing = new Map(databaseRows.map(row => [String(row[key]), row]));
+    const snapshotKeys = new Set<string>();
+
+    const diff: TableDiff = { insert: [], update: [], unchanged: 0, onlyInDatabase: 0 };
+
+    for (const row of snapshotRows) {
+        const rowKey = String(row[key]);
+        snapshotKeys.add(rowKey);
+
+        const current = existing.get(rowKey);
+        if (!current) {
+            diff.insert.push(rowKey);
+            continue;
+        }
+
+        const changes: Record<string, { from: unknown; to: unknown }> = {};
+        for (const [field, value] of Object.entries(row)) {
+            if (timestampFields.includes(field)) {
+                continue;
+            }
+            if (stableStringify(current[field]) !== stableStringify(value)) {
+                changes[field] = { from: current[field] ?? null, to: value ?? null };
+            }
+        }
+
+        if (Object.keys(changes).length > 0) {
+            diff.update.push({ key: rowKey, changes });
+        } else {
+            diff.unchanged++;
+        }
+    }
+
+    diff.onlyInDatabase = [...existing.keys()].filter(rowKey => !snapshotKeys.has(rowKey)).length;
+
+    return diff;
+}
+
+/**
+  * Restore (or seed) the database from a snapshot
+  *
+  * @param snapshot - Snapshot folder name under backups/
+  * @param options - dryRun: only return the diff; tables: limit to some tables
+  */
+export async function restoreSnapshot(
+    snapshot: string,
+    { dryRun = false, tables = backupTableNames }: { dryRun?: boolean; tables?: BackupTable[] } = {}
+): Promise<RestoreResult> {
+    const data = await readSnapshot(snapshot, tables);
+    const result: RestoreResult = { snapshot, dryRun, tables: {} };
+    const writes: Array<{ table: BackupTable; rows: Record<string, unknown>[] }> = [];
+
+    for (const table of backupTableNames) {
+        const snapshotRows = data[table];
+        if (!snapshotRows) {
+            continue;
+        }
+
+        const diff = diffTable(table, snapshotRows, await readTable(table));
+        result.tables[table] = diff;
+
+        const { key } = backupTables[table];
+        const changedKeys = new Set([...diff.insert, ...diff.update.map(update => update.key)]);
+        writes.push({ table, rows: snapshotRows.filter(row => changedKeys.has(String(row[key]))) });
+    }
+
+    if (dryRun) {
+        return result;
+    }
+
+    await db.transaction(async (tx) => {
+        for (const { table, rows } of writes) {
+            const { table: drizzleTable, key } = backupTables[table];
+            const keyColumn = getTableColumns(drizzleTable)[key as keyof typeof drizzleTable.$inferSelect];
+
+            for (const row of rows) {
+                const { [key]: _key, ...values } = row;
+                await tx
+                    .insert(drizzleTable)
+                    .values(row as any)
+                    .onConflictDoUpdate({
+                        target: keyColumn,
+                        set: { ...values, updatedAt: values.updatedAt ?? sql`now()` } as any,
+                    });
+            }
+        }
+    });
+
+    const catalogNames = writes
+        .filter(({ table }) => table === 'company_info' || table === 'mega_list')
+        .flatMap(({ table, rows }) => rows.map(row => String(row[backupTables[table].key])));
+
+    if (catalogNames.length > 0) {
+        await syncCatalogProducts({ names: catalogNames });
+    }
+
+    return result;
+}
@@ -0,0 +1,92 @@
+/**
+  * Budget Limits
+  *
+  * Checks a user's spending against the limits in config.budget before
+  * any model call is made. Spending comes from the usage log (src/lib/usage.ts).
+  */
+
+import config from './config';
+import { getUserSpend, startOfMonth } from './usage';
+
+export interface BudgetLimit {
+    limit: number;
+    spent: number;
+    remaining: number;
+}
+
+export interface BudgetStatus {
+    thread: BudgetLimit | null;
+    monthly: BudgetLimit;
+    // Which limit has been reached, if any (thread limit takes precedence)
+    exceeded: 'thread' | 'monthly' | null;
+    // True once either limit is past config.budget.warnAtFraction
+    warning: boolean;
+}
+
+function toLimit(limit: number, spent: number): BudgetLimit {
+    return {
+        limit,
+        spent: Number(spent.toFixed(4)),
+        remaining: Number(Math.max(0, limit - spent).toFixed(4)),
+    };
+}
+
+/**
+  * Get the budget status for a user and (optionally) a thread
+  *
+  * @param email - The user whose monthly spending is checked
+  * @param threadCost - The thread's cost so far in dollars (omit for a new thread)
+  */
+export async function getBudgetStatus(email: string, threadCost?: number): Promise<BudgetStatus> {
+    const { perThreadDollars, perUserMonthlyDollars, warnAtFraction } = config.budget;
+
+    const monthly = toLimit(perUserMonthlyDollars, await getUserSpend(email, startOfMonth()));
+    const thread = threadCost === undefined ? null : toLimit(perThreadDollars, threadCost);
+
+    let exceeded: BudgetStatus['exceeded'] = null;
+    if (thread && thread.spent >= thread.limit) {
+        exceeded = 'thread';
+    } else if (monthly.spent >= monthly.limit) {
+        exceeded = 'monthly';
+    }
+
+    const warning = monthly.spent >= monthly.limit * warnAtFraction
+        || (!!thread && thread.spent >= thread.limit * warnAtFraction);
+
+    return { thread, monthly, exceeded, warning };
+}
+
+/**
+  * User-facing message for an exceeded budget
+  */
+export function getBudgetErrorMessage(status: BudgetStatus): string {
+    if (status.exceeded === 'thread' && status.thread) {
+        return `This thread has reached its $${status.thread.limit.toFixed(2)} spending limit. Please start a new thread.`;
+    }
+
+    const resetDate = new Date(startOfMonth());
+    resetDate.setUTCMonth(resetDate.getUTCMonth() + 1);
+
+    return `You have reached your $${status.monthly.limit.toFixed(2)} monthly spending limit. It resets on ${resetDate.toISOString().slice(0, 10)}.`;
+}
+
+/**
+  * Response headers describing the remaining budget (read by the chat UI)
+  */
+export function getBudgetHeaders(status: BudgetStatus): Record<string, string> {
+    const headers: Record<string, string> = {
+        'X-Budget-Monthly-Remaining': status.monthly.remaining.toFixed(4),
+        'X-Budget-Monthly-Limit': status.monthly.limit.toFixed(2),
+    };
+
+    if (status.thread) {
+        headers['X-Budget-Thread-Remaining'] = status.thread.remaining.toFixed(4);
+        headers['X-Budget-Thread-Limit'] = status.thread.limit.toFixed(2);
+    }
+
+    if (status.warning) {
+        headers['X-Budget-Warning'] = 'true';
+    }
+
+    return headers;
+}
@@ -0,0 +1,368 @@
+/**
+  * Catalog Management
+  *
+  * Validation and CRUD for the catalog tables the assistant recommends from
+  * (company_info and mega_list). Used by the admin API and pages.
+  * - documentation must be a plain http(s) URL (not "[https://... ]")
+  * - mega_list.type must come from megaListTypes (see catalogVocabulary.ts)
+  * Writes re-sync the rows' products (see products.ts) and embeddings for semantic search
+  * (see catalogEmbeddings.ts).
+  */
+
+import { z } from 'zod';
+import { asc, count, eq, ilike, or, sql } from 'drizzle-orm';
+
+import { db } from '../db/initialize';
+import { companyInfoTable, megaListTable } from '../db/schema';
+import { refreshCatalogEmbeddings } from './catalogEmbeddings';
+import { isHttpUrl, megaListTypes } from './catalogVocabulary';
+import { applyCatalogFixes, lintCatalogRows, type CatalogIssue } from './catalogLint';
+import { syncCatalogProducts } from './products';
+
+export type CatalogTable = 'company_info' | 'mega_list';
+export type CompanyInfoEntry = typeof companyInfoTable.$inferSelect;
+export type MegaListEntry = typeof megaListTable.$inferSelect;
+export type CatalogEntry = CompanyInfoEntry | MegaListEntry;
+
+export const catalogTables: CatalogTable[] = ['company_info', 'mega_list'];
+
+export { isHttpUrl, megaListTypes };
+
+const httpUrl = z
+    .string()
+    .trim()
+    .refine(isHttpUrl, 'must be a plain http(s) URL (e.g. https://docs.example.com), without brackets or spaces');
+
+const companyInfoSchema = z.object({
+    name: z.string().trim().min(1, 'is required').max(200),
+    provider: z.string().trim().max(200).default(''),
+    subcategory: z.string().trim().max(200).default(''),
+    description: z.string().trim().max(2000).default(''),
+    keyfeature: z.string().trim().max(2000).default(''),
+    documentation: z.union([httpUrl, z.literal('')]).default(''),
+});
+
+const megaListSchema = z.object({
+    name: z.string().trim().min(1, 'is required').max(200),
+    type: z.enum(megaListTypes, {
+        errorMap: () => ({ message: `must be one of: ${megaListTypes.join(', ')}` }),
+    }),
+    subtype: z.string().trim().max(200).nullish().transform(value => value || null),
+});
+
+export type CompanyInfoInput = z.infer<typeof companyInfoSchema>;
+export type MegaListInput = z.infer<typeof megaListSchema>;
+
+export type CatalogValidation<T> =
+    | { success: true; data: T }
+    | { success: false; errors: string[] };
+
+export type CatalogResult =
+    | { success: true; entry: CatalogEntry }
+    | { success: false; code: 'invalid' | 'conflict' | 'not_found'; errors: string[] };
+
+// Database column names (as used in the JSON backups) accepted in place of the field names
+const columnAliases: Record<CatalogTable, Record<string, string>> = {
+    company_info: {
+        product_name: 'name',
+        sub_category: 'subcategory',
+        key_feature: 'keyfeature',
+    },
+    mega_list: {},
+};
+
+const MAX_PAGE_SIZE = 200;
+
+/**
+  * Whether a string names a catalog table
+  */
+export function isCatalogTable(value: unknown): value is CatalogTable {
+    return catalogTables.includes(value as CatalogTable);
+}
+
+/**
+  * Get the Drizzle table for a catalog table name
+  */
+function getTable(table: CatalogTable) {
+    return table === 'company_info' ? companyInfoTable : megaListTable;
+}
+
+/**
+  * Bring what is derived from the catalog up to date after a write: the rows' products
+  * (see products.ts) and embeddings (see catalogEmbeddings.ts)
+  *
+  * A failure (e.g. the embedding provider is down) does not fail the write: products can be
+  * re-synced with `npm run catalog:migrate` and the next semantic search re-embeds stale rows.
+  */
+async function afterCatalogWrite(table: CatalogTable, names: string[]): Promise<void> {
+    try {
+        await syncCatalogProducts({ names });
+    } catch (error) {
+        console.warn('⚠️ Failed to sync catalog products:', error instanceof Error ? error.message : error);
+    }
+
+    try {
+        await refreshCatalogEmbeddings(table, names);
+    } catch (error) {
+        console.warn('⚠️ Failed to refresh catalog embeddings:', error instanceof Error ? error.message : error);
+    }
+}
+
+/**
+  * Rename column-name keys (product_name, sub_category, ...) to field names and drop timestamps
+  */
+function normalizeKeys(table: CatalogTable, raw: unknown): Record<string, unknown> {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return {};
+    }
+
+    const aliases = columnAliases[table];
+    const entry: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(raw)) {
+        if (key === 'created_at' || key === 'updated_at' || key === 'createdAt' || key === 'updatedAt') {
+            continue;
+        }
+        entry[aliases[key] || key] = value;
+    }
+
+    return entry;
+}
+
+/**
+  * Validate a catalog entry
+  *
+  * @param table - Catalog table the entry is for
+  * @param raw - Entry using field names or database column names
+  * @param options - partial: only validate the fields that are present (for updates)
+  */
+export function validateCatalogEntry(
+    table: CatalogTable,
+    raw: unknown,
+    { partial = false }: { partial?: boolean } = {}
+): CatalogValidation<Partial<CompanyInfoInput> | Partial<MegaListInput>> {
+    const baseSchema = table === 'company_info' ? companyInfoSchema : megaListSchema;
+    const schema = partial ? baseSchema.partial() : baseSchema;
+
+    const parsed = schema.safeParse(normalizeKeys(table, raw));
+
+    if (!parsed.success) {
+        return {
+            success: false,
+            errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'entry'} ${issue.message}`),
+        };
+    }
+
+    // partial() keeps defaults for missing fields; drop them so updates only touch what was sent
+    if (partial) {
+        const sent = normalizeKeys(table, raw);
+        const data = Object.fromEntries(Object.entries(parsed.data).filter(([key]) => key in sent));
+        return { success: true, data };
+    }
+
+    return { success: true, data: parsed.data };
+}
+
+/**
+  * List catalog entries, optionally filtered by a search term
+  *
+  * @param table - Catalog table to list
+  * @param options - Search term (matched against the text columns) and paging (1-based page)
+  */
+export async function listCatalogEntries(
+    table: CatalogTable,
+    { search = '', page = 1, pageSize = 50 }: { search?: string; page?: number; pageSize?: number } = {}
+): Promise<{ entries: CatalogEntry[]; page: number; pageSize: number; total: number; totalPages: number }> {
+    const safePageSize = Math.min(Math.max(1, Math.floor(pageSize) || 50), MAX_PAGE_SIZE);
+    const safePage = Math.max(1, Math.floor(page) || 1);
+    const pattern = `%${search.trim()}%`;
+
+    if (table === 'company_info') {
+        const where = search.trim()
+            ? or(
+                ilike(companyInfoTable.name, pattern),
+                ilike(companyInfoTable.provider, pattern),
+                ilike(companyInfoTable.subcategory, pattern),
+                ilike(companyInfoTable.description, pattern)
+            )
+            : undefined;
+
+        const [{ total }] = await db.select({ total: count() }).from(companyInfoTable).where(where);
+        const entries = await db
+            .select()
+            .from(companyInfoTable)
+            .where(where)
+            .orderBy(asc(companyInfoTable.name))
+            .limit(safePageSize)
+            .offset((safePage - 1) * safePageSize);
+
+        return { entries, page: safePage, pageSize: safePageSize, total, totalPages: Math.ceil(total / safePageSize) };
+    }
+
+    const where = search.trim()
+        ? or(
+            ilike(megaListTable.name, pattern),
+            ilike(megaListTable.type, pattern),
+            ilike(megaListTable.subtype, pattern)
+        )
+        : undefined;
+
+    const [{ total }] = await db.select({ total: count() }).from(megaListTable).where(where);
+    const entries = await db
+        .select()
+        .from(megaListTable)
+        .where(where)
+        .orderBy(asc(megaListTable.name))
+        .limit(safePageSize)
+        .offset((safePage - 1) * safePageSize);
+
+    return { entries, page: safePage, pageSize: safePageSize, total, totalPages: Math.ceil(total / safePageSize) };
+}
+
+/**
+  * Get one catalog entry by name
+  */
+export async function getCatalogEntry(table: CatalogTable, name: string): Promise<CatalogEntry | null> {
+    const catalogTable = getTable(table);
+    const rows = await db.select().from(catalogTable).where(eq(catalogTable.name, name)).limit(1);
+    return rows[0] || null;
+}
+
+/**
+  * Validate and create a catalog entry
+  */
+export async function createCatalogEntry(table: CatalogTable, raw: unknown): Promise<CatalogResult> {
+    const validation = validateCatalogEntry(table, raw);
+    if (!validation.success) {
+        return { success: false, code: 'invalid', errors: validation.errors };
+    }
+
+    const catalogTable = getTable(table);
+    const [entry] = await db
+        .insert(catalogTable)
+        .values(validation.data as any)
+        .onConflictDoNothing()
+        .returning();
+
+    if (!entry) {
+        return { success: false, code: 'conflict', errors: [`An entry named "${validation.data.name}" already exists`] };
+    }
+
+    await afterCatalogWrite(table, [entry.name]);
+
+    return { success: true, entry };
+}
+
+/**
+  * Validate and apply changes to a catalog entry (a new name renames it)
+  */
+export async function updateCatalogEntry(table: CatalogTable, name: string, raw: unknown): Promise<CatalogResult> {
+    const validation = validateCatalogEntry(table, raw, { partial: true });
+    if (!validation.success) {
+        return { success: false, code: 'invalid', errors: validation.errors };
+    }
+
+    const catalogTable = getTable(table);
+
+    if (validation.data.name && validation.data.name !== name && await getCatalogEntry(table, validation.data.name)) {
+        return { success: false, code: 'conflict', errors: [`An entry named "${validation.data.name}" already exists`] };
+    }
+
+    const [entry] = await db
+        .update(catalogTable)
+        .set({ ...validation.data, updatedAt: new Date() } as any)
+        .where(eq(catalogTable.name, name))
+        .returning();
+
+    if (!entry) {
+        return { success: false, code: 'not_found', errors: [`No entry named "${name}"`] };
+    }
+
+    await afterCatalogWrite(table, entry.name === name ? [name] : [name, entry.name]);
+
+    return { success: true, entry };
+}
+
+/**
+  * Delete a catalog entry
+  *
+  * @returns Whether an entry was deleted
+  */
+export async function deleteCatalogEntry(table: CatalogTable, name: string): Promise<boolean> {
+    const catalogTable = getTable(table);
+    const deleted = await db.delete(catalogTable).where(eq(catalogTable.name, name)).returning({ name: catalogTable.name });
+
+    if (deleted.length > 0) {
+        await afterCatalogWrite(table, [name]);
+    }
+
+    return deleted.length > 0;
+}
+
+/**
+  * Validate and upsert many catalog entries (e.g. a JSON backup file)
+  *
+  * Rows are checked by the catalog linter first (see catalogLint.ts); with `fix` its
+  * proposed fixes (e.g. stripping brackets from documentation URLs) are applied before validation.
+  * Valid rows are written in one transaction; invalid rows are skipped and reported.
+  *
+  * @param table - Catalog table to import into
+  * @param rows - Entries using field names or database column names
+  * @param options - dryRun: validate only, write nothing; fix: apply the linter's fixes
+  */
+export async function importCatalogEntries(
+    table: CatalogTable,
+    rows: unknown[],
+    { dryRun = false, fix = false }: { dryRun?: boolean; fix?: boolean } = {}
+): Promise<{
+    valid: number;
+    imported: number;
+    errors: Array<{ index: number; name: string | null; errors: string[] }>;
+    lint: CatalogIssue[];
+    fixed: number;
+}> {
+    const valid: Array<CompanyInfoInput | MegaListInput> = [];
+    const errors: Array<{ index: number; name: string | null; errors: string[] }> = [];
+    const seen = new Set<string>();
+
+    const catalogTable = getTable(table);
+    const knownNames = (await db.select({ name: catalogTable.name }).from(catalogTable)).map(entry => entry.name);
+    const normalizedRows = rows.map(row => normalizeKeys(table, row));
+    const lint = lintCatalogRows(table, normalizedRows, { knownNames });
+    const fixedRows = fix ? applyCatalogFixes(normalizedRows, lint) : { rows: normalizedRows, fixed: 0 };
+
+    fixedRows.rows.forEach((row, index) => {
+        const validation = validateCatalogEntry(table, row);
+        const name = typeof row.name === 'string' ? row.name : null;
+
+        if (!validation.success) {
+            errors.push({ index, name, errors: validation.errors });
+        } else if (seen.has(validation.data.name!)) {
+            errors.push({ index, name, errors: [`Duplicate of an earlier row named "${validation.data.name}"`] });
+        } else {
+            seen.add(validation.data.name!);
+            valid.push(validation.data as CompanyInfoInput | MegaListInput);
+        }
+    });
+
+    if (dryRun || valid.length === 0) {
+        return { valid: valid.length, imported: 0, errors, lint, fixed: fixedRows.fixed };
+    }
+
+    await db.transaction(async (tx) => {
+        for (const entry of valid) {
+            const { name, ...values } = entry;
+            await tx
+                .insert(catalogTable)
+                .values(entry as any)
+                .onConflictDoUpdate({
+                    target: catalogTable.name,
+                    set: { ...values, updatedAt: sql`now()` } as any,
+                });
+        }
+    });
+
+    await afterCatalogWrite(table, valid.map(entry => entry.name));
+
+    return { valid: valid.length, imported: valid.length, errors, lint, fixed: fixedRows.fixed };
+}
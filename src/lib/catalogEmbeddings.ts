@@ -0,0 +1,347 @@
+/**
+  * Catalog Embeddings
+  *
+  * Semantic search over company_info and mega_list: each row is embedded with
+  * the model in config.embeddings (see providers.ts; 'local' needs no API key)
+  * and stored in catalog_embeddings, and queries are ranked by cosine similarity.
+  *
+  * Embeddings follow the catalog:
+  * - The admin catalog functions (src/lib/catalog.ts) refresh the rows they write or delete
+  * - Restores and linter fixes through the admin API, and POST /api/admin/embeddings (for
+  *   changes made by scripts or SQL), run syncCatalogEmbeddings: changed rows are re-embedded
+  *   and embeddings of deleted rows removed
+  * - Searches only embed rows that have no embedding at all, and load vectors other processes
+  *   stored, at most once per SYNC_INTERVAL_MS per process, so a search never re-embeds the catalog
+  */
+
+import { createHash } from 'node:crypto';
+import { cosineSimilarity, embed, embedMany } from 'ai';
+import { and, eq, inArray, notExists, notInArray, sql } from 'drizzle-orm';
+
+import { db } from '../db/initialize';
+import { catalogEmbeddingsTable, companyInfoTable, megaListTable } from '../db/schema';
+import config from './config';
+import { getEmbeddingModel } from './providers';
+import type { CatalogTable } from './catalog';
+
+type CompanyInfoRow = typeof companyInfoTable.$inferSelect;
+type MegaListRow = typeof megaListTable.$inferSelect;
+
+export type SemanticSearchResult =
+    | { table: 'company_info'; score: number; entry: CompanyInfoRow }
+    | { table: 'mega_list'; score: number; entry: MegaListRow };
+
+const SYNC_INTERVAL_MS = 60_000;
+const WRITE_BATCH_SIZE = 100;
+
+// Vectors of the current model by "table/name", kept between searches
+const vectorCache = new Map<string, { contentHash: string; embedding: number[] }>();
+let cachedModel = '';
+let lastCheckAt = 0;
+
+/**
+  * The configured embedding model as "provider:model", the key embeddings are stored under
+  */
+function getModelKey(): string {
+    return `${config.embeddings.provider}:${config.embeddings.model}`;
+}
+
+function cacheKey(table: CatalogTable, name: string): string {
+    return `${table}/${name}`;
+}
+
+/**
+  * Text embedded for a catalog row
+  */
+function getEmbeddingText(table: CatalogTable, row: CompanyInfoRow | MegaListRow): string {
+    if (table === 'company_info') {
+        const { name, provider, subcategory, description, keyfeature } = row as CompanyInfoRow;
+        return [`${name}${provider ? ` by ${provider}` : ''}`, subcategory, description, keyfeature]
+            .filter(Boolean)
+            .join('. ');
+    }
+
+    const { name, type, subtype } = row as MegaListRow;
+    return [name, type, subtype].filter(Boolean).join('. ');
+}
+
+function hashText(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+  * Read the catalog rows of a table, optionally only the named ones
+  */
+async function readCatalogRows(table: CatalogTable, names?: string[]): Promise<Array<CompanyInfoRow | MegaListRow>> {
+    const catalogTable = table === 'company_info' ? companyInfoTable : megaListTable;
+    return await db
+        .select()
+        .from(catalogTable)
+        .where(names ? inArray(catalogTable.name, names) : undefined);
+}
+
+/**
+  * Empty the cache when the configured model changed
+  */
+function checkCachedModel(model: string) {
+    if (cachedModel !== model) {
+        vectorCache.clear();
+        cachedModel = model;
+        lastCheckAt = 0;
+    }
+}
+
+/**
+  * Embed catalog rows and upsert their embeddings
+  */
+async function writeEmbeddings(table: CatalogTable, rows: Array<CompanyInfoRow | MegaListRow>): Promise<void> {
+    const model = getModelKey();
+
+    for (let start = 0; start < rows.length; start += WRITE_BATCH_SIZE) {
+        const batch = rows.slice(start, start + WRITE_BATCH_SIZE);
+        const texts = batch.map(row => getEmbeddingText(table, row));
+        const { embeddings } = await embedMany({ model: getEmbeddingModel(), values: texts });
+
+        const values = batch.map((row, index) => ({
+            catalogTable: table,
+            name: row.name,
+            model,
+            contentHash: hashText(texts[index]),
+            embedding: embeddings[index],
+        }));
+
+        await db
+            .insert(catalogEmbeddingsTable)
+            .values(values)
+            .onConflictDoUpdate({
+                target: [catalogEmbeddingsTable.catalogTable, catalogEmbeddingsTable.name, catalogEmbeddingsTable.model],
+                set: {
+                    contentHash: sql`excluded.content_hash`,
+                    embedding: sql`excluded.embedding`,
+                    updatedAt: sql`now()`,
+                },
+            });
+
+        for (const { name, contentHash, embedding } of values) {
+            vectorCache.set(cacheKey(table, name), { contentHash, embedding });
+        }
+    }
+}
+
+/**
+  * Re-embed the named catalog rows after they changed; names without a row have their embeddings removed
+  *
+  * @param table - Catalog table the rows belong to
+  * @param names - Names of created, updated, renamed or deleted rows
+  */
+export async function refreshCatalogEmbeddings(table: CatalogTable, names: string[]): Promise<void> {
+    if (names.length === 0) {
+        return;
+    }
+
+    const model = getModelKey();
+    checkCachedModel(model);
+
+    const rows = await readCatalogRows(table, names);
+    const existing = new Set(rows.map(row => row.name));
+    const removed = names.filter(name => !existing.has(name));
+
+    if (removed.length > 0) {
+        await db
+            .delete(catalogEmbeddingsTable)
+            .where(and(
+                eq(catalogEmbeddingsTable.model, model),
+                eq(catalogEmbeddingsTable.catalogTable, table),
+                inArray(catalogEmbeddingsTable.name, removed)
+            ));
+
+        for (const name of removed) {
+            vectorCache.delete(cacheKey(table, name));
+        }
+    }
+
+    await writeEmbeddings(table, rows);
+}
+
+/**
+  * Bring the stored embeddings in line with the catalog: embed new and changed rows, drop deleted ones
+  * and load vectors that other processes stored into the cache
+  *
+  * Reads and hashes every catalog row, so it runs after bulk changes (restores, linter fixes,
+  * POST /api/admin/embeddings), not before searches.
+  *
+  * @returns How many rows were embedded and how many embeddings were removed
+  */
+export async function syncCatalogEmbeddings(): Promise<{ embedded: number; removed: number }> {
+    const model = getModelKey();
+    checkCachedModel(model);
+
+    let embedded = 0;
+    let removed = 0;
+    let uncached = false;
+
+    for (const table of ['company_info', 'mega_list'] as CatalogTable[]) {
+        const rows = await readCatalogRows(table);
+        const stored = await db
+            .select({ name: catalogEmbeddingsTable.name, contentHash: catalogEmbeddingsTable.contentHash })
+            .from(catalogEmbeddingsTable)
+            .where(and(eq(catalogEmbeddingsTable.model, model), eq(catalogEmbeddingsTable.catalogTable, table)));
+
+        const storedHashes = new Map(stored.map(({ name, contentHash }) => [name, contentHash]));
+        const stale = rows.filter(row => storedHashes.get(row.name) !== hashText(getEmbeddingText(table, row)));
+        const names = rows.map(row => row.name);
+        const nameSet = new Set(names);
+        const staleNames = new Set(stale.map(row => row.name));
+        const orphans = stored.filter(({ name }) => !nameSet.has(name));
+
+        // Up-to-date embeddings missing from the cache, e.g. written by another process
+        uncached ||= stored.some(({ name, contentHash }) =>
+            nameSet.has(name) && !staleNames.has(name) && vectorCache.get(cacheKey(table, name))?.contentHash !== contentHash
+        );
+
+        if (orphans.length > 0) {
+            await db
+                .delete(catalogEmbeddingsTable)
+                .where(and(
+                    eq(catalogEmbeddingsTable.model, model),
+                    eq(catalogEmbeddingsTable.catalogTable, table),
+                    notInArray(catalogEmbeddingsTable.name, names)
+                ));
+
+            for (const { name } of orphans) {
+                vectorCache.delete(cacheKey(table, name));
+            }
+        }
+
+        await writeEmbeddings(table, stale);
+
+        embedded += stale.length;
+        removed += orphans.length;
+    }
+
+    if (uncached) {
+        await loadVectors(model);
+    }
+
+    lastCheckAt = Date.now();
+
+    return { embedded, removed };
+}
+
+/**
+  * Embed catalog rows that have no embedding of the current model (e.g. inserted with SQL),
+  * load vectors that are stored but not cached (e.g. written by another process) and forget
+  * cached vectors whose embedding was removed
+  *
+  * Only reads the missing rows and the stored hashes, so it is cheap enough for the search path.
+  */
+async function embedMissingRows(model: string): Promise<void> {
+    for (const table of ['company_info', 'mega_list'] as CatalogTable[]) {
+        const catalogTable = table === 'company_info' ? companyInfoTable : megaListTable;
+        const missing = await db
+            .select()
+            .from(catalogTable)
+            .where(notExists(
+                db
+                    .select({ name: catalogEmbeddingsTable.name })
+                    .from(catalogEmbeddingsTable)
+                    .where(and(
+                        eq(catalogEmbeddingsTable.model, model),
+                        eq(catalogEmbeddingsTable.catalogTable, table),
+                        eq(catalogEmbeddingsTable.name, catalogTable.name)
+                    ))
+            ));
+
+        await writeEmbeddings(table, missing);
+    }
+
+    const stored = await db
+        .select({ catalogTable: catalogEmbeddingsTable.catalogTable, name: catalogEmbeddingsTable.name, contentHash: catalogEmbeddingsTable.contentHash })
+        .from(catalogEmbeddingsTable)
+        .where(eq(catalogEmbeddingsTable.model, model));
+
+    const storedKeys = new Set(stored.map(({ catalogTable, name }) => cacheKey(catalogTable, name)));
+    for (const key of vectorCache.keys()) {
+        if (!storedKeys.has(key)) {
+            vectorCache.delete(key);
+        }
+    }
+
+    if (stored.some(({ catalogTable, name, contentHash }) => vectorCache.get(cacheKey(catalogTable, name))?.contentHash !== contentHash)) {
+        await loadVectors(model);
+    }
+
+    lastCheckAt = Date.now();
+}
+
+/**
+  * Load stored vectors of the current model that are not cached yet
+  */
+async function loadVectors(model: string): Promise<void> {
+    const rows = await db
+        .select({
+            catalogTable: catalogEmbeddingsTable.catalogTable,
+            name: catalogEmbeddingsTable.name,
+            contentHash: catalogEmbeddingsTable.contentHash,
+            embedding: catalogEmbeddingsTable.embedding,
+        })
+        .from(catalogEmbeddingsTable)
+        .where(eq(catalogEmbeddingsTable.model, model));
+
+    for (const { catalogTable, name, contentHash, embedding } of rows) {
+        vectorCache.set(cacheKey(catalogTable, name), { contentHash, embedding });
+    }
+}
+
+/**
+  * Rank catalog rows by semantic similarity to a query
+  *
+  * @param query - What the user needs, in plain words (e.g. "realtime multiplayer sync")
+  * @param options - Catalog tables to search, result limit and minimum cosine similarity
+  * @returns The best matches first, with their catalog rows
+  */
+export async function semanticSearchCatalog(
+    query: string,
+    { tables = ['company_info', 'mega_list'], limit = 10, minScore = 0 }: { tables?: CatalogTable[]; limit?: number; minScore?: number } = {}
+): Promise<SemanticSearchResult[]> {
+    const model = getModelKey();
+    checkCachedModel(model);
+
+    if (Date.now() - lastCheckAt > SYNC_INTERVAL_MS) {
+        await embedMissingRows(model);
+    }
+
+    const { embedding: queryEmbedding } = await embed({ model: getEmbeddingModel(), value: query });
+
+    const ranked = [...vectorCache.entries()]
+        .map(([key, { embedding }]) => {
+            const separator = key.indexOf('/');
+            return {
+                table: key.slice(0, separator) as CatalogTable,
+                name: key.slice(separator + 1),
+                score: embedding.length === queryEmbedding.length ? cosineSimilarity(queryEmbedding, embedding) : 0,
+            };
+        })
+        .filter(({ table, score }) => tables.includes(table) && score > minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+    const results: SemanticSearchResult[] = [];
+
+    for (const table of tables) {
+        const matches = ranked.filter(match => match.table === table);
+        if (matches.length === 0) {
+            continue;
+        }
+
+        const rows = new Map((await readCatalogRows(table, matches.map(match => match.name))).map(row => [row.name, row]));
+        for (const { name, score } of matches) {
+            const entry = rows.get(name);
+            if (entry) {
+                results.push({ table, score: Math.round(score * 1000) / 1000, entry } as SemanticSearchResult);
+            }
+        }
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyCatalogFixes, closestType, lintCatalogRows, normalizeUrl } from './catalogLint';
+
+describe('normalizeUrl', () => {
+    it('unwraps bracketed and quoted URLs', () => {
+        expect(normalizeUrl('[https://supabase.com/docs ]')).toBe('https://supabase.com/docs');
+        expect(normalizeUrl('<"https://neon.tech/docs">')).toBe('https://neon.tech/docs');
+        expect(normalizeUrl('  (https://vercel.com/docs)  ')).toBe('https://vercel.com/docs');
+    });
+
+    it('adds https to bare domains', () => {
+        expect(normalizeUrl('docs.stripe.com/api')).toBe('https://docs.stripe.com/api');
+    });
+
+    it('tells values that are not URLs from URLs it cannot fix', () => {
+        expect(normalizeUrl('TRUE')).toBe('');
+        expect(normalizeUrl('N/A')).toBe(null);
+        expect(normalizeUrl('https://example.com/some page')).toBe(null);
+    });
+});
+
+describe('closestType', () => {
+    it('corrects typos and case differences', () => {
+        expect(closestType('Hpsting Platform')).toBe('Hosting Platform');
+        expect(closestType('orm')).toBe('ORM');
+        expect(closestType('database ')).toBe('Database');
+    });
+
+    it('proposes nothing for values far from every type', () => {
+        expect(closestType('Quantum Blockchain Toaster')).toBe(null);
+    });
+});
+
+describe('lintCatalogRows', () => {
+    it('flags malformed documentation URLs with their fix', () => {
+        const issues = lintCatalogRows('company_info', [
+            { name: 'Supabase', provider: 'Supabase', subcategory: 'Database', description: 'Postgres platform', documentation: '[https://supabase.com/docs ]' },
+            { name: 'Render', provider: 'Render', subcategory: 'Hosting', description: 'Cloud hosting', documentation: 'TRUE' },
+        ]);
+
+        expect(issues.filter(issue => issue.rule === 'malformed-url').map(({ name, fix }) => ({ name, fix }))).toEqual([
+            { name: 'Supabase', fix: 'https://supabase.com/docs' },
+            { name: 'Render', fix: '' },
+        ]);
+        expect(issues.find(issue => issue.name === 'Render')?.message).toBe('documentation "TRUE" is not a URL');
+    });
+
+    it('flags unknown types and taxonomy spelling variants', () => {
+        const issues = lintCatalogRows('mega_list', [
+            { name: 'Vercel', type: 'Hpsting Platform', subtype: 'Serverless' },
+            { name: 'S3', type: 'Storage and CDN', subtype: 'AWS' },
+            { name: 'CloudFront', type: 'Storage and CDN', subtype: 'AWS' },
+            { name: 'Glacier', type: 'Storage and CDN', subtype: 'Aws' },
+        ]);
+
+        expect(issues.map(({ name, rule, fix }) => ({ name, rule, fix }))).toEqual([
+            { name: 'Vercel', rule: 'unknown-type', fix: 'Hosting Platform' },
+            { name: 'Glacier', rule: 'inconsistent-taxonomy', fix: 'AWS' },
+        ]);
+    });
+
+    it('flags untrimmed values, near-duplicates and missing descriptions', () => {
+        const issues = lintCatalogRows('company_info', [
+            { name: 'Neon', provider: ' Neon', subcategory: 'Database', description: 'Serverless Postgres', documentation: 'https://neon.tech/docs' },
+            { name: 'Neon (Postgres)', provider: 'Neon', subcategory: 'Database', description: '', documentation: null },
+        ], { knownNames: ['neon'] });
+
+        expect(issues.map(({ name, field, rule }) => `${name}/${field}/${rule}`)).toEqual([
+            'Neon/provider/untrimmed',
+            'Neon (Postgres)/description/missing-description',
+            'Neon/name/near-duplicate',
+            'Neon (Postgres)/name/near-duplicate',
+        ]);
+        expect(issues.filter(issue => issue.rule === 'near-duplicate').every(issue => !('fix' in issue))).toBe(true);
+    });
+});
+
+describe('applyCatalogFixes', () => {
+    it('applies the proposed fixes and leaves the rest alone', () => {
+        const rows = [
+            { name: 'Vercel', type: 'Hpsting Platform', subtype: ' Serverless ' },
+            { name: 'Neon', type: 'Database', subtype: 'Postgres' },
+        ];
+
+        const { rows: fixed, fixed: count } = applyCatalogFixes(rows, lintCatalogRows('mega_list', rows));
+
+        expect(count).toBe(2);
+        expect(fixed).toEqual([
+            { name: 'Vercel', type: 'Hosting Platform', subtype: 'Serverless' },
+            { name: 'Neon', type: 'Database', subtype: 'Postgres' },
+        ]);
+        expect(fixed[1]).toBe(rows[1]);
+    });
+});
@@ -0,0 +1,403 @@
+/**
+  * Catalog Linter
+  *
+  * Finds data quality problems in company_info and mega_list and proposes fixes:
+  * - malformed-url: documentation that is not a plain http(s) URL ("[https://... ]", "TRUE")
+  * - unknown-type: mega_list.type outside the vocabulary, with the closest type as fix ("Hpsting Platform")
+  * - inconsistent-taxonomy: the same provider/subcategory/subtype spelled differently ("Aws" vs "AWS")
+  * - untrimmed: leading/trailing whitespace in a text field
+  * - near-duplicate: names that only differ in case, spacing, punctuation or a "(...)" suffix (no automatic fix)
+  * - missing-description: company_info rows without a description (no automatic fix)
+  *
+  * Runs from `npm run catalog:lint`, the admin data quality page and on bulk import.
+  */
+
+import { eq } from 'drizzle-orm';
+
+import { db } from '../db/initialize';
+import { companyInfoTable, megaListTable } from '../db/schema';
+import { isHttpUrl, megaListTypes, nameKey } from './catalogVocabulary';
+import type { CatalogTable } from './catalog';
+
+export type CatalogLintRule =
+    | 'malformed-url'
+    | 'unknown-type'
+    | 'inconsistent-taxonomy'
+    | 'untrimmed'
+    | 'near-duplicate'
+    | 'missing-description';
+
+export interface CatalogIssue {
+    table: CatalogTable;
+    name: string;
+    field: string;
+    rule: CatalogLintRule;
+    severity: 'error' | 'warning';
+    message: string;
+    value: string | null;
+    // Proposed value for the field; absent when the problem needs a human decision
+    fix?: string | null;
+}
+
+export interface CatalogLintReport {
+    issues: CatalogIssue[];
+    counts: Record<CatalogLintRule, number>;
+    fixable: number;
+}
+
+type CatalogRow = Record<string, unknown>;
+
+export const catalogLintRules: CatalogLintRule[] = [
+    'malformed-url',
+    'unknown-type',
+    'inconsistent-taxonomy',
+    'untrimmed',
+    'near-duplicate',
+    'missing-description',
+];
+
+// Text fields checked per table (the name is the primary key and never rewritten)
+const textFields: Record<CatalogTable, string[]> = {
+    company_info: ['provider', 'subcategory', 'description', 'keyfeature', 'documentation'],
+    mega_list: ['type', 'subtype'],
+};
+
+// Wrappers stripped from URLs, e.g. "[https://docs.example.com ]"
+const urlWrappers: Array<[string, string]> = [['[', ']'], ['<', '>'], ['(', ')'], ['"', '"'], ["'", "'"]];
+
+/**
+  * Read a field as a string ('' for null and non-strings)
+  */
+function text(row: CatalogRow, field: string): string {
+    const value = row[field];
+    return typeof value === 'string' ? value : '';
+}
+
+/**
+  * Levenshtein edit distance
+  */
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+  * Lower-case a taxonomy value and collapse whitespace ("Object  storage " -> "object storage")
+  */
+function taxonomyKey(value: string): string {
+    return value.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+/**
+  * Turn a malformed documentation value into a plain http(s) URL
+  *
+  * @returns The URL, '' for values that are not a URL at all (e.g. "TRUE"), or null if it can't be fixed
+  */
+export function normalizeUrl(value: string): string | null {
+    let url = value.trim();
+
+    for (let changed = true; changed;) {
+        changed = false;
+        for (const [open, close] of urlWrappers) {
+            if (url.startsWith(open) && url.endsWith(close) && url.length >= 2) {
+                url = url.slice(1, -1).trim();
+                changed = true;
+            }
+        }
+    }
+
+    if (url && !/^[a-z][a-z0-9+.-]*:/i.test(url) && /^[\w-]+(\.[\w-]+)+(\/\S*)?$/.test(url)) {
+        url = `https://${url}`;
+    }
+
+    if (isHttpUrl(url) && !/\s/.test(url)) {
+        return url;
+    }
+
+    return /[./]/.test(url) ? null : '';
+}
+
+/**
+  * Closest mega_list type for an unknown one (case differences or a small typo)
+  */
+export function closestType(value: string): string | null {
+    let best: { type: string; distance: number } | null = null;
+
+    for (const type of megaListTypes) {
+        const distance = editDistance(taxonomyKey(value), type.toLowerCase());
+        if (!best || distance < best.distance) {
+            best = { type, distance };
+        }
+    }
+
+    return best && best.distance <= Math.max(2, Math.floor(value.length / 6)) ? best.type : null;
+}
+
+/**
+  * Flag spelling variants of the same taxonomy value, proposing the most common spelling
+  *
+  * @param groupBy - Optional field the values are grouped under (subtypes are compared per type)
+  */
+function checkTaxonomy(table: CatalogTable, rows: CatalogRow[], field: string, groupBy?: string): CatalogIssue[] {
+    const variants = new Map<string, Map<string, number>>();
+
+    for (const row of rows) {
+        const value = text(row, field);
+        if (!value.trim()) continue;
+
+        const key = `${groupBy ? taxonomyKey(text(row, groupBy)) : ''}\n${taxonomyKey(value)}`;
+        const counts = variants.get(key) || new Map<string, number>();
+        counts.set(value.trim(), (counts.get(value.trim()) || 0) + 1);
+        variants.set(key, counts);
+    }
+
+    const issues: CatalogIssue[] = [];
+
+    for (const row of rows) {
+        const value = text(row, field);
+        const key = `${groupBy ? taxonomyKey(text(row, groupBy)) : ''}\n${taxonomyKey(value)}`;
+        const counts = variants.get(key);
+        if (!counts || counts.size < 2) continue;
+
+        const [canonical] = [...counts.entries()].sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))[0];
+        if (value.trim() === canonical) continue;
+
+        issues.push({
+            table,
+            name: text(row, 'name'),
+            field,
+            rule: 'inconsistent-taxonomy',
+            severity: 'warning',
+            message: `${field} "${value}" is spelled "${canonical}" elsewhere`,
+            value,
+            fix: canonical,
+        });
+    }
+
+    return issues;
+}
+
+/**
+  * Flag names that look like duplicates of another row's name
+  *
+  * @param knownNames - Names already in the table (when linting rows to import)
+  */
+function checkNearDuplicates(table: CatalogTable, rows: CatalogRow[], knownNames: string[]): CatalogIssue[] {
+    const issues: CatalogIssue[] = [];
+    const names = [...new Set([...rows.map(row => text(row, 'name')), ...knownNames])].filter(Boolean);
+    const keys = names.map(name => ({ name, key: nameKey(name) }));
+
+    for (const row of rows) {
+        const name = text(row, 'name');
+        const key = nameKey(name);
+        if (!key) continue;
+
+        // Names one typo apart are usually different products (Next.js / Nuxt.js, React / Preact), so only spelling variants count
+        const similar = keys.filter(other => other.name !== name && other.key === key);
+
+        if (similar.length > 0) {
+            issues.push({
+                table,
+                name,
+                field: 'name',
+                rule: 'near-duplicate',
+                severity: 'warning',
+                message: `"${name}" looks like a duplicate of ${similar.map(other => `"${other.name}"`).join(', ')}`,
+                value: name,
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+  * Lint catalog rows
+  *
+  * @param table - Catalog table the rows belong to
+  * @param rows - Rows using field names (name, provider, subcategory, ... / name, type, subtype)
+  * @param options - knownNames: other names in the table, for duplicate checks of rows to import
+  */
+export function lintCatalogRows(
+    table: CatalogTable,
+    rows: CatalogRow[],
+    { knownNames = [] }: { knownNames?: string[] } = {}
+): CatalogIssue[] {
+    const issues: CatalogIssue[] = [];
+
+    for (const row of rows) {
+        const name = text(row, 'name');
+
+        for (const field of textFields[table]) {
+            const value = text(row, field);
+
+            if (field === 'documentation' && value && !isHttpUrl(value.trim())) {
+                const fix = normalizeUrl(value);
+                issues.push({
+                    table,
+                    name,
+                    field,
+                    rule: 'malformed-url',
+                    severity: 'error',
+                    message: fix === '' ? `documentation "${value}" is not a URL` : `documentation "${value}" is not a plain http(s) URL`,
+                    value,
+                    ...(fix === null ? {} : { fix }),
+                });
+                continue;
+            }
+
+            if (value !== value.trim()) {
+                issues.push({
+                    table,
+                    name,
+                    field,
+                    rule: 'untrimmed',
+                    severity: 'warning',
+                    message: `${field} has leading or trailing whitespace`,
+                    value,
+                    fix: value.trim(),
+                });
+            }
+        }
+
+        if (table === 'mega_list') {
+            const type = text(row, 'type');
+            if (!(megaListTypes as readonly string[]).includes(type.trim())) {
+                const fix = type.trim() ? closestType(type) : null;
+                issues.push({
+                    table,
+                    name,
+                    field: 'type',
+                    rule: 'unknown-type',
+                    severity: 'error',
+                    message: type.trim()
+                        ? `type "${type}" is not in the vocabulary${fix ? ` (did you mean "${fix}"?)` : ''}`
+                        : 'type is missing',
+                    value: type,
+                    ...(fix ? { fix } : {}),
+                });
+            }
+        }
+
+        if (table === 'company_info' && !text(row, 'description').trim()) {
+            issues.push({
+                table,
+                name,
+                field: 'description',
+                rule: 'missing-description',
+                severity: 'warning',
+                message: 'description is missing',
+                value: text(row, 'description'),
+            });
+        }
+    }
+
+    if (table === 'company_info') {
+        issues.push(...checkTaxonomy(table, rows, 'provider'), ...checkTaxonomy(table, rows, 'subcategory'));
+    } else {
+        issues.push(...checkTaxonomy(table, rows, 'subtype', 'type'));
+    }
+
+    issues.push(...checkNearDuplicates(table, rows, knownNames));
+
+    // One fix per field: a field flagged as untrimmed and inconsistent only needs the taxonomy fix
+    return issues.filter((issue, index) => !(
+        issue.rule === 'untrimmed' &&
+        issues.some((other, otherIndex) => otherIndex !== index && other.name === issue.name && other.field === issue.field && 'fix' in other && other.rule !== 'untrimmed')
+    ));
+}
+
+/**
+  * Apply the proposed fixes to rows (in memory, e.g. before importing them)
+  *
+  * @returns Fixed copies of the rows and how many fixes were applied
+  */
+export function applyCatalogFixes(rows: CatalogRow[], issues: CatalogIssue[]): { rows: CatalogRow[]; fixed: number } {
+    let fixed = 0;
+
+    const fixedRows = rows.map((row) => {
+        const rowFixes = issues.filter(issue => 'fix' in issue && issue.name === text(row, 'name'));
+        if (rowFixes.length === 0) {
+            return row;
+        }
+
+        fixed += rowFixes.length;
+        return { ...row, ...Object.fromEntries(rowFixes.map(issue => [issue.field, issue.fix])) };
+    });
+
+    return { rows: fixedRows, fixed };
+}
+
+/**
+  * Summarize issues into a report
+  */
+export function buildLintReport(issues: CatalogIssue[]): CatalogLintReport {
+    const counts = Object.fromEntries(catalogLintRules.map(rule => [rule, 0])) as Record<CatalogLintRule, number>;
+    for (const issue of issues) {
+        counts[issue.rule]++;
+    }
+
+    return { issues, counts, fixable: issues.filter(issue => 'fix' in issue).length };
+}
+
+/**
+  * Lint the catalog tables in the database
+  */
+export async function lintCatalog(tables: CatalogTable[] = ['company_info', 'mega_list']): Promise<CatalogLintReport> {
+    const issues: CatalogIssue[] = [];
+
+    for (const table of tables) {
+        const rows = await db.select().from(table === 'company_info' ? companyInfoTable : megaListTable);
+        issues.push(...lintCatalogRows(table, rows));
+    }
+
+    return buildLintReport(issues);
+}
+
+/**
+  * Apply the proposed fixes to the database in one transaction
+  *
+  * Does not refresh embeddings: callers run syncCatalogEmbeddings (POST /api/admin/quality does).
+  *
+  * @param options - rules: only apply fixes for these rules; tables: only fix these tables
+  * @returns How many fixes were applied and how many rows they touched
+  */
+export async function fixCatalog(
+    { rules = catalogLintRules, tables }: { rules?: CatalogLintRule[]; tables?: CatalogTable[] } = {}
+): Promise<{ fixed: number; rows: number }> {
+    const { issues } = await lintCatalog(tables);
+    const fixes = issues.filter(issue => 'fix' in issue && rules.includes(issue.rule));
+
+    const changes = new Map<string, { table: CatalogTable; name: string; values: Record<string, string | null> }>();
+    for (const issue of fixes) {
+        const key = `${issue.table}/${issue.name}`;
+        const change = changes.get(key) || { table: issue.table, name: issue.name, values: {} };
+        change.values[issue.field] = issue.fix ?? null;
+        changes.set(key, change);
+    }
+
+    await db.transaction(async (tx) => {
+        for (const { table, name, values } of changes.values()) {
+            const catalogTable = table === 'company_info' ? companyInfoTable : megaListTable;
+            await tx
+                .update(catalogTable)
+                .set({ ...values, updatedAt: new Date() })
+                .where(eq(catalogTable.name, name));
+        }
+    });
+
+    return { fixed: fixes.length, rows: changes.size };
+}
@@ -0,0 +1,149 @@
+/**
+  * Catalog Search
+  *
+  * Ranked search over company_info and mega_list for the query tools:
+  * - Full-text search (tsvector, weighted so name matches rank highest)
+  * - Trigram similarity on the name for typos (pg_trgm), e.g. "Raleway" vs "Railway"
+  * - Case-insensitive substring match on the name for partial terms
+  * Column filters are combined with AND, so each one narrows the results.
+  * pg_trgm is created by `npm run db:extensions` before the schema push (the
+  * schema's trigram indexes need it too), so it is assumed here.
+  * Each result carries its product from the relational catalog (provider, category,
+  * tags and the other catalog table's row, see products.ts).
+  */
+
+import { and, asc, desc, getTableColumns, ilike, or, sql, type SQL } from 'drizzle-orm';
+
+import { db } from '../db/initialize';
+import { companyInfoSearchDocument, companyInfoTable, megaListSearchDocument, megaListTable } from '../db/schema';
+import { getProductsForRows, type ProductDetails } from './products';
+
+export type CompanyInfoSearchResult = typeof companyInfoTable.$inferSelect & { score: number | null; product: ProductDetails | null };
+export type MegaListSearchResult = typeof megaListTable.$inferSelect & { score: number | null; product: ProductDetails | null };
+
+/**
+  * Escape LIKE wildcards so user input only matches literally
+  */
+function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+  * Case-insensitive "column contains value" filter
+  */
+function contains(column: Parameters<typeof ilike>[0], value: string): SQL {
+    return ilike(column, `%${escapeLike(value.trim())}%`);
+}
+
+/**
+  * Match condition and relevance score for a search term
+  *
+  * Score: full-text rank + trigram similarity of the name (0-1) + 1 for an exact name match
+  */
+function rankedMatch(document: SQL, name: Parameters<typeof ilike>[0], term: string): { match: SQL; score: SQL<number> } {
+    const query = sql`websearch_to_tsquery('english', ${term})`;
+
+    const match = or(
+        sql`${document} @@ ${query}`,
+        contains(name, term),
+        sql`${name} % ${term}`,
+        sql`${term} <% ${name}`
+    )!;
+    const score = sql`ts_rank(${document}, ${query})
+        + greatest(similarity(${name}, ${term}), word_similarity(${term}, ${name}))
+        + (case when lower(${name}) = lower(${term}) then 1 else 0 end)`;
+
+    return { match, score: sql<number>`round((${score})::numeric, 3)::float` };
+}
+
+/**
+  * Search company_info
+  *
+  * @param options - Search term (ranked), provider/subcategory filters (contains, AND) and a result limit
+  * @returns Matching products with their relational product, best first; score is null when there is no search term
+  */
+export async function searchCompanyInfo(
+    { searchTerm, provider, subcategory, limit }: { searchTerm?: string; provider?: string; subcategory?: string; limit: number }
+): Promise<CompanyInfoSearchResult[]> {
+    const filters: SQL[] = [];
+
+    if (provider?.trim()) {
+        filters.push(contains(companyInfoTable.provider, provider));
+    }
+
+    if (subcategory?.trim()) {
+        filters.push(contains(companyInfoTable.subcategory, subcategory));
+    }
+
+    let rows: Array<typeof companyInfoTable.$inferSelect & { score: number | null }>;
+
+    if (!searchTerm?.trim()) {
+        rows = (await db
+            .select()
+            .from(companyInfoTable)
+            .where(and(...filters))
+            .orderBy(asc(companyInfoTable.name))
+            .limit(limit)
+        ).map(row => ({ ...row, score: null }));
+    } else {
+        const { match, score } = rankedMatch(
+            companyInfoSearchDocument(companyInfoTable),
+            companyInfoTable.name,
+            searchTerm.trim()
+        );
+
+        rows = await db
+            .select({ ...getTableColumns(companyInfoTable), score })
+            .from(companyInfoTable)
+            .where(and(match, ...filters))
+            .orderBy(desc(score), asc(companyInfoTable.name))
+            .limit(limit);
+    }
+
+    const products = await getProductsForRows('company_info', rows.map(row => row.name));
+    return rows.map(row => ({ ...row, product: products.get(row.name) ?? null }));
+}
+
+/**
+  * Search mega_list
+  *
+  * @param options - Search term (ranked), type filter (contains, AND) and a result limit
+  * @returns Matching entries with their relational product, best first; score is null when there is no search term
+  */
+export async function searchMegaList(
+    { searchTerm, type, limit }: { searchTerm?: string; type?: string; limit: number }
+): Promise<MegaListSearchResult[]> {
+    const filters: SQL[] = [];
+
+    if (type?.trim()) {
+        filters.push(contains(megaListTable.type, type));
+    }
+
+    let rows: Array<typeof megaListTable.$inferSelect & { score: number | null }>;
+
+    if (!searchTerm?.trim()) {
+        rows = (await db
+            .select()
+            .from(megaListTable)
+            .where(and(...filters))
+            .orderBy(asc(megaListTable.name))
+            .limit(limit)
+        ).map(row => ({ ...row, score: null }));
+    } else {
+        const { match, score } = rankedMatch(
+            megaListSearchDocument(megaListTable),
+            megaListTable.name,
+            searchTerm.trim()
+        );
+
+        rows = await db
+            .select({ ...getTableColumns(megaListTable), score })
+            .from(megaListTable)
+            .where(and(match, ...filters))
+            .orderBy(desc(score), asc(megaListTable.name))
+            .limit(limit);
+    }
+
+    const products = await getProductsForRows('mega_list', rows.map(row => row.name));
+    return rows.map(row => ({ ...row, product: products.get(row.name) ?? null }));
+}
@@ -0,0 +1,78 @@
+/**
+  * Catalog Vocabulary
+  *
+  * Rules shared by catalog validation (catalog.ts) and the catalog linter
+  * (catalogLint.ts). Kept free of app imports so scripts can use it too.
+  */
+
+// Controlled vocabulary for mega_list.type
+export const megaListTypes = [
+    '3D Graphics',
+    'Analytics and Product Insight',
+    'Animation Library',
+    'API Communication Style',
+    'API Framework',
+    'Back-End Framework',
+    'Backend-as-a-Service',
+    'Build Tool',
+    'CI/CD',
+    'CMS',
+    'Code Quality',
+    'Data Visualization',
+    'Database',
+    'Date & Time',
+    'Deployment Tool',
+    'Development Tool',
+    'DevOps',
+    'E-Commerce Platform',
+    'Email Service',
+    'Error Tracking',
+    'Form Library',
+    'Front-End',
+    'GraphQL Client',
+    'GraphQL Engine',
+    'Hosting Platform',
+    'HTTP Client',
+    'In-Memory Database',
+    'Internal Tools',
+    'Internationalization',
+    'Monitoring & Observability',
+    'ORM',
+    'Package Manager',
+    'Payment Processor',
+    'Process Manager',
+    'Real-Time Communication',
+    'Runtime Environment',
+    'Search Engine',
+    'Serverless Data',
+    'State Management',
+    'Storage and CDN',
+    'Style Manager',
+    'Testing Framework',
+    'UI Component Library',
+    'User Management',
+    'Utility Library',
+    'Validation Library',
+    'Web Server',
+    'Workflow Engine',
+] as const;
+
+/**
+  * Whether a string is a plain http(s) URL
+  */
+export function isHttpUrl(value: string): boolean {
+    try {
+        const { protocol } = new URL(value);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+  * Key that spelling variants of a product name share: lower-case, without a "(...)" suffix
+  * and without anything but letters and digits ("Neon (Postgres)" -> "neon", "Cloud Shell" -> "cloudshell")
+  */
+export function nameKey(name: string): string {
+    return name.toLowerCase().replace(/\s*\([^)]*\)\s*$/, '').replace(/[^a-z0-9]/g, '');
+}
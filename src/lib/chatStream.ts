@@ -0,0 +1,116 @@
+/**
+  * Chat Stream Protocol
+  *
+  * /api/message/generate streams its reply as server-sent events so the chat UI
+  * can show what the model is doing while tool steps run, not just the text:
+  * - thread: first event, with the thread ID, title so far, model, mode and the ids
+  *   of the user message and the reply (see threadTree.ts)
+  * - step-start / step-finish: one model call (a reply takes up to 10 steps)
+  * - tool-start / tool-finish: a tool call, with a human-readable label
+  * - comparison: the table of a compareStacks call, rendered with its keep buttons
+  * - text: a chunk of the answer
+  * - title: the thread title, once generated (after the answer)
+  * - cost: what the request cost, once usage is recorded
+  * - error: the reply failed part-way
+  * - done: last event
+  *
+  * Each event is sent as `event: <type>` plus a JSON `data:` line.
+  */
+
+import type { StackComparison } from './comparison';
+
+export type ChatStreamEvent =
+    | { type: 'thread'; threadId: string; title: string | null; model: string; mode: string; userMessageId: string; parentMessageId: string | null; replyMessageId: string }
+    | { type: 'step-start'; step: number }
+    | { type: 'step-finish'; step: number; finishReason: string }
+    | { type: 'tool-start'; toolCallId: string; toolName: string; label: string }
+    | { type: 'tool-finish'; toolCallId: string; toolName: string; label: string; success: boolean; message: string }
+    | { type: 'comparison'; toolCallId: string; comparison: StackComparison }
+    | { type: 'text'; text: string }
+    | { type: 'title'; title: string }
+    | { type: 'cost'; requestCost: number; threadCost: number }
+    | { type: 'error'; error: string }
+    | { type: 'done' };
+
+export const chatStreamHeaders = {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'X-Accel-Buffering': 'no',
+};
+
+/**
+  * Serialize an event in the server-sent events format
+  */
+export function encodeChatStreamEvent({ type, ...data }: ChatStreamEvent): string {
+    return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+  * Shorten a value for a progress label
+  */
+function quote(value: unknown, maxLength = 60): string {
+    const text = String(value ?? '').replace(/\s+/g, ' ').trim();
+    return `'${text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text}'`;
+}
+
+/**
+  * List the first few names of an array input
+  */
+function listNames(value: unknown, max = 4): string {
+    const names = Array.isArray(value) ? value.map(String) : [];
+    const shown = names.slice(0, max).join(', ');
+    return names.length > max ? `${shown} and ${names.length - max} more` : shown;
+}
+
+/**
+  * Describe a tool call for the progress view, e.g. "Querying catalog for 'Postgres'…"
+  *
+  * @param toolName - Tool name as registered in tools.ts
+  * @param input - The arguments the model passed
+  */
+export function describeToolCall(toolName: string, input: unknown): string {
+    const args = (input && typeof input === 'object' ? input : {}) as Record<string, any>;
+
+    switch (toolName) {
+        case 'queryCompanyInfo':
+            return args.searchTerm ? `Querying catalog for ${quote(args.searchTerm)}…` : 'Browsing the product catalog…';
+        case 'queryMegaList':
+            return args.searchTerm ? `Querying technology categories for ${quote(args.searchTerm)}…` : 'Browsing technology categories…';
+        case 'semanticSearchCatalog':
+            return `Searching catalog for ${quote(args.query)}…`;
+        case 'search':
+            return `Searching the web for ${quote(args.query)}…`;
+        case 'getPageContent': {
+            const urls: string[] = Array.isArray(args.urls) ? args.urls : [];
+            return urls.length === 1 ? `Reading ${urls[0]}…` : `Reading ${urls.length} pages…`;
+        }
+        case 'checkStackCompatibility':
+            return `Checking compatibility of ${listNames(args.products)}…`;
+        case 'estimateStackCost':
+            return `Estimating monthly cost of ${listNames(args.stack)}…`;
+        case 'compareStacks': {
+            const options: Array<{ label?: string; products?: unknown }> = Array.isArray(args.options) ? args.options : [];
+            return `Comparing ${options.map(option => option.label || listNames(option.products, 2)).join(' vs ')}…`;
+        }
+        case 'generateScaffold':
+            return `Generating a starter project for ${listNames(args.stack)}…`;
+        case 'calculate':
+            return `Calculating (${args.operation})…`;
+        case 'runJSCode':
+            return 'Running JavaScript…';
+        default:
+            return `Running ${toolName}…`;
+    }
+}
+
+/**
+  * Outcome of a tool call from its output ({ message, result: { success } })
+  */
+export function describeToolResult(output: unknown): { success: boolean; message: string } {
+    const { message, result } = (output && typeof output === 'object' ? output : {}) as { message?: unknown; result?: { success?: unknown } };
+
+    return {
+        success: result?.success !== false,
+        message: typeof message === 'string' ? message : '',
+    };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { keepComparisonOption, type ComparisonProduct, type StackComparison } from './comparison';
+import type { StackRecommendation } from './types';
+
+const product = (name: string, monthlyCost: number | null = null): ComparisonProduct => ({
+    name,
+    product: name,
+    provider: name,
+    layer: 'database',
+    category: null,
+    tags: [],
+    catalogRef: null,
+    documentationUrl: null,
+    tier: monthlyCost === null ? null : 'Pro',
+    monthlyCost,
+});
+
+const comparison = (supabaseCost: number | null) => ({
+    options: [
+        { label: 'Supabase', products: [product('Supabase', supabaseCost)] },
+        { label: 'Neon', products: [product('Neon', 19)] },
+    ],
+}) as unknown as StackComparison;
+
+const stack: StackRecommendation = {
+    summary: 'Next.js on Vercel with Neon',
+    entries: [
+        { layer: 'hosting', name: 'Vercel', provider: 'Vercel', catalogRef: null, rationale: 'Next.js host', estimatedMonthlyCost: { min: 0, max: 20 } },
+        { layer: 'database', name: 'supabase', provider: 'Supabase', catalogRef: null, rationale: 'Postgres with auth', estimatedMonthlyCost: { min: 0, max: 25 } },
+    ],
+    totalEstimatedMonthlyCost: { min: 0, max: 45 },
+    generatedAt: '2026-10-01T00:00:00.000Z',
+};
+
+describe('keepComparisonOption', () => {
+    it('keeps the stack estimate and rationale of a product without catalog pricing', () => {
+        const kept = keepComparisonOption(stack, comparison(null), 0);
+
+        expect(kept.entries.map(entry => entry.name)).toEqual(['Vercel', 'Supabase']);
+        expect(kept.entries[1]).toMatchObject({ rationale: 'Postgres with auth', estimatedMonthlyCost: { min: 0, max: 25 } });
+        expect(kept.totalEstimatedMonthlyCost).toEqual({ min: 0, max: 45 });
+    });
+
+    it('uses the catalog price of the compared tier when there is one', () => {
+        const kept = keepComparisonOption(stack, comparison(25), 1);
+
+        expect(kept.entries.map(entry => entry.name)).toEqual(['Vercel', 'Neon']);
+        expect(kept.entries[1]).toMatchObject({
+            rationale: 'Chosen over Supabase in a side-by-side comparison',
+            estimatedMonthlyCost: { min: 19, max: 19, notes: 'Pro tier at the compared usage' },
+        });
+        expect(kept.totalEstimatedMonthlyCost).toEqual({ min: 19, max: 39 });
+    });
+
+    it('falls back to $0 for an unpriced product the stack did not have', () => {
+        const kept = keepComparisonOption(null, comparison(null), 0);
+
+        expect(kept.entries[0].estimatedMonthlyCost).toEqual({ min: 0, max: 0, notes: 'No pricing data in the catalog' });
+    });
+});
@@ -0,0 +1,419 @@
+/**
+  * Stack Comparison
+  *
+  * Side-by-side comparison of two or three alternatives (single products or
+  * whole stacks) for the compareStacks tool. Each option is described from the
+  * catalog, not by the model:
+  * - features: the catalog's key feature/description and tags of each product
+  * - cost: the cheapest fitting pricing tiers (see pricing.ts) at the same usage
+  * - lock-in: open source / self-hostable tags and known alternatives (product_relations)
+  * - learning curve: number of services, self-hosting and unmet requirements
+  * - integration fit: conflicts, requirements and integrations with the rest of the stack
+  * - docs: excerpts of the documentation pages already in the cache (nothing is fetched)
+  *
+  * The comparison is stored as the tool result; the chat renders its table and
+  * lets the user keep one option in the thread's stack (keepComparisonOption).
+  */
+
+import { nameKey } from './catalogVocabulary';
+import { getDocumentation } from './documentation';
+import { estimateStackCost, type StackUsage } from './pricing';
+import { checkStackCompatibility, listProductRelations } from './productRelations';
+import { findProducts, getProductDetails, type ProductDetails } from './products';
+import { unwrapToolOutput } from './threadMessages';
+import type { CatalogReference, StackEntry, StackLayer, StackRecommendation } from './types';
+
+export type ComparisonLevel = 'low' | 'medium' | 'high';
+export type IntegrationFit = 'good' | 'partial' | 'poor';
+
+export interface ComparisonOptionInput {
+    // e.g. "Supabase" or "Vercel + Neon" (default: the product names)
+    label?: string;
+    products: string[];
+}
+
+export interface ComparisonProduct {
+    // Name as requested, and the catalog product it matched (null when not in the catalog)
+    name: string;
+    product: string | null;
+    provider: string | null;
+    layer: StackLayer;
+    category: string | null;
+    tags: string[];
+    catalogRef: CatalogReference | null;
+    documentationUrl: string | null;
+    // Cheapest fitting tier at the compared usage; null when the catalog has no pricing
+    tier: string | null;
+    monthlyCost: number | null;
+}
+
+export interface ComparisonOption {
+    label: string;
+    products: ComparisonProduct[];
+    features: string[];
+    cost: { monthly: number; freeTier: boolean; unpriced: string[] };
+    lockIn: { level: ComparisonLevel; reasons: string[] };
+    learningCurve: { level: ComparisonLevel; reasons: string[] };
+    integrationFit: { level: IntegrationFit; reasons: string[] };
+    docs: Array<{ url: string; title: string; excerpt: string; stale: boolean }>;
+}
+
+// Rows of the comparison as shown in the chat; each cell is a list of lines
+export interface ComparisonTable {
+    columns: string[];
+    rows: Array<{ dimension: string; cells: string[][] }>;
+}
+
+export interface StackComparison {
+    options: ComparisonOption[];
+    // Rest of the stack the options were checked against
+    context: string[];
+    usage: StackUsage;
+    assumptions: string[];
+    table: ComparisonTable;
+}
+
+type ProductInfo = ProductDetails & { catalogRef: CatalogReference | null };
+
+const FEATURE_LENGTH = 160;
+const EXCERPT_LENGTH = 300;
+
+// Catalog types/categories that tell a product's layer, checked in order
+const layerPatterns: Array<[StackLayer, RegExp]> = [
+    ['auth', /\bauth|identity|login|sso\b/i],
+    ['payments', /payment|billing|checkout|subscription/i],
+    ['ai', /\bai\b|\bllm|machine learning|\bml\b|inference|embedding/i],
+    ['analytics', /analytic|monitor|observab|logging|error tracking|telemetry/i],
+    ['storage', /storage|\bcdn\b|object store|file/i],
+    ['database', /database|\bdb\b|sql|cache|key[- ]value|vector/i],
+    ['hosting', /hosting|deploy|serverless|\bpaas\b|cloud platform|edge/i],
+    ['frontend', /frontend|front-end|\bui\b|css|static site|web framework/i],
+    ['backend', /backend|back-end|\bapi\b|server|orm|framework/i],
+];
+
+/**
+  * Shorten text to a length, on a word boundary
+  */
+function truncate(text: string, length: number): string {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    return clean.length > length ? `${clean.slice(0, length).replace(/\s+\S*$/, '')}…` : clean;
+}
+
+/**
+  * Infer the stack layer of a product from its catalog type and category
+  */
+export function inferLayer(details: Pick<ProductDetails, 'type' | 'subtype' | 'category'> | null, fallback: StackLayer = 'other'): StackLayer {
+    const text = details ? [details.type, details.subtype, details.category].filter(Boolean).join(' ') : '';
+    return layerPatterns.find(([, pattern]) => pattern.test(text))?.[0] ?? fallback;
+}
+
+const levelOrder: ComparisonLevel[] = ['low', 'medium', 'high'];
+
+/**
+  * Lock-in of one product: low when it is open source or self-hostable, medium when the
+  * catalog knows alternatives to move to, high otherwise
+  */
+export function assessLockIn(name: string, details: ProductInfo | null, alternatives: string[]): { level: ComparisonLevel; reason: string } {
+    if (!details) {
+        return { level: 'medium', reason: `${name}: not in the catalog, lock-in unknown` };
+    }
+
+    const portable = [
+        details.tags.includes('Open source') ? 'open source' : null,
+        details.tags.includes('Self-hostable') ? 'self-hostable' : null,
+    ].filter(Boolean);
+    const alternativesNote = alternatives.length > 0
+        ? `${alternatives.length} alternative${alternatives.length === 1 ? '' : 's'} in the catalog (${alternatives.slice(0, 3).join(', ')})`
+        : 'no known alternatives in the catalog';
+
+    if (portable.length > 0) {
+        return { level: 'low', reason: `${details.name}: ${portable.join(', ')}` };
+    }
+    return {
+        level: alternatives.length > 0 ? 'medium' : 'high',
+        reason: `${details.name}: proprietary${details.tags.includes('Managed service') ? ' managed service' : ''}, ${alternativesNote}`,
+    };
+}
+
+/**
+  * Learning curve of an option: each service beyond the first, each service the team
+  * has to run itself, each unmet requirement and each product without documentation adds to it
+  */
+export function assessLearningCurve(products: Array<{ name: string; details: ProductInfo | null }>, missingRequirements: string[]): { level: ComparisonLevel; reasons: string[] } {
+    const reasons: string[] = [];
+    let points = Math.max(0, products.length - 1);
+
+    if (products.length > 1) {
+        reasons.push(`${products.length} services to learn`);
+    }
+    for (const { name, details } of products) {
+        if (details?.tags.includes('Self-hostable') && !details.tags.includes('Managed service')) {
+            points += 2;
+            reasons.push(`${details.name}: usually self-hosted, so the team runs and upgrades it`);
+        } else if (details?.tags.includes('Managed service')) {
+            reasons.push(`${details.name}: managed, no servers to run`);
+        }
+        if (!details?.documentationUrl) {
+            points += 1;
+            reasons.push(`${details?.name ?? name}: no documentation link in the catalog`);
+        }
+    }
+    if (missingRequirements.length > 0) {
+        points += missingRequirements.length;
+        reasons.push(`Also needs ${missingRequirements.join(', ')}`);
+    }
+
+    return { level: points <= 1 ? 'low' : points <= 3 ? 'medium' : 'high', reasons };
+}
+
+/**
+  * Format a monthly cost, e.g. "$25.00/month"
+  */
+function formatCost(cost: number): string {
+    return `$${cost.toFixed(2)}/month`;
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+  * Lay the options out as a table: one column per option, one row per dimension
+  */
+export function buildComparisonTable(options: ComparisonOption[]): ComparisonTable {
+    const assessment = ({ level, reasons }: { level: string; reasons: string[] }) => [capitalize(level), ...reasons];
+
+    return {
+        columns: options.map(option => option.label),
+        rows: [
+            {
+                dimension: 'Products',
+                cells: options.map(option => option.products.map(product =>
+                    `${product.product ?? product.name}${product.provider ? ` (${product.provider})` : ''} · ${product.layer}`)),
+            },
+            { dimension: 'Features', cells: options.map(option => option.features) },
+            {
+                dimension: 'Cost',
+                cells: options.map(({ cost, products }) => [
+                    `${formatCost(cost.monthly)}${cost.freeTier ? ' (free tier)' : ''}`,
+                    ...products.filter(product => product.tier).map(product => `${product.product ?? product.name}: ${product.tier}, ${formatCost(product.monthlyCost ?? 0)}`),
+                    ...(cost.unpriced.length > 0 ? [`Not priced: ${cost.unpriced.join(', ')}`] : []),
+                ]),
+            },
+            { dimension: 'Lock-in', cells: options.map(option => assessment(option.lockIn)) },
+            { dimension: 'Learning curve', cells: options.map(option => assessment(option.learningCurve)) },
+            { dimension: 'Integration fit', cells: options.map(option => assessment(option.integrationFit)) },
+            {
+                dimension: 'Documentation',
+                cells: options.map(option => {
+                    const urls = [...new Set(option.products.map(product => product.documentationUrl).filter((url): url is string => Boolean(url)))];
+                    return urls.length > 0 ? urls : ['No documentation links in the catalog'];
+                }),
+            },
+        ],
+    };
+}
+
+/**
+  * Compare two or three alternatives
+  *
+  * @param inputs - The options, each one or more product names
+  * @param options.context - Rest of the stack the chosen option has to fit into
+  * @param options.layer - Layer being compared, for products whose catalog entry doesn't tell
+  * @param options.usage - Usage to price the options at (see estimateUsage)
+  */
+export async function compareStacks(
+    inputs: ComparisonOptionInput[],
+    { context = [], layer = 'other', usage = {} }: { context?: string[]; layer?: StackLayer; usage?: Partial<StackUsage> } = {}
+): Promise<StackComparison> {
+    const allNames = [...new Set(inputs.flatMap(input => input.products).map(name => name.trim()).filter(Boolean))];
+    const found = await findProducts(allNames);
+    const productIds = [...new Set([...found.values()].map(product => product.id))];
+
+    const [details, relations] = await Promise.all([
+        getProductDetails(productIds),
+        Promise.all(productIds.map(async id => [id, await listProductRelations({ product: id })] as const)),
+    ]);
+    const alternativesById = new Map(relations.map(([id, productRelations]) => [
+        id,
+        productRelations
+            .filter(relation => relation.kind === 'alternative_to')
+            .map(relation => (relation.from.id === id ? relation.to.name : relation.from.name)),
+    ]));
+
+    const docUrls = [...details.values()].map(product => product.documentationUrl).filter((url): url is string => Boolean(url));
+    const { pages } = await getDocumentation(docUrls, { offline: true });
+
+    const options: ComparisonOption[] = [];
+    let estimateUsage: Pick<StackComparison, 'usage' | 'assumptions'> | null = null;
+
+    for (const input of inputs) {
+        const names = [...new Set(input.products.map(name => name.trim()).filter(Boolean))];
+        const productInfo = names.map(name => {
+            const match = found.get(name);
+            return { name, details: match ? details.get(match.id) ?? null : null };
+        });
+
+        const [estimate, compatibility] = await Promise.all([
+            estimateStackCost(names, usage),
+            checkStackCompatibility([...names, ...context.filter(name => !names.includes(name))]),
+        ]);
+        estimateUsage ??= { usage: estimate.usage, assumptions: estimate.assumptions };
+
+        // Only relations that involve this option's products
+        const optionIds = new Set(productInfo.map(product => product.details?.id).filter(Boolean));
+        const involves = (relation: { from: { id: string }; to: { id: string } }) => optionIds.has(relation.from.id) || optionIds.has(relation.to.id);
+        const conflicts = compatibility.conflicts.filter(involves);
+        const missing = compatibility.missingRequirements.filter(relation => optionIds.has(relation.from.id));
+        const integrations = compatibility.integrations.filter(involves);
+
+        const products: ComparisonProduct[] = productInfo.map(({ name, details: info }) => {
+            const service = estimate.services.find(item => item.name === name);
+            return {
+                name,
+                product: info?.name ?? null,
+                provider: info?.provider ?? null,
+                layer: inferLayer(info, layer),
+                category: info?.category ?? null,
+                tags: info?.tags ?? [],
+                catalogRef: info?.catalogRef ?? null,
+                documentationUrl: info?.documentationUrl ?? null,
+                tier: service?.tier ?? null,
+                monthlyCost: service?.monthlyCost ?? null,
+            };
+        });
+
+        const lockIn = productInfo.map(({ name, details: info }) => assessLockIn(name, info, info ? alternativesById.get(info.id) ?? [] : []));
+        const unknown = names.filter(name => !found.has(name));
+
+        options.push({
+            label: input.label?.trim() || names.join(' + '),
+            products,
+            features: productInfo.map(({ name, details: info }) => {
+                const feature = info?.keyFeature || info?.description;
+                const tags = info?.tags.length ? ` [${info.tags.join(', ')}]` : '';
+                return `${info?.name ?? name}: ${feature ? truncate(feature, FEATURE_LENGTH) : 'no catalog description'}${tags}`;
+            }),
+            cost: {
+                monthly: estimate.totalMonthlyCost,
+                freeTier: estimate.services.length > 0 && estimate.services.every(service => service.freeTier) && estimate.unpriced.length === 0 && estimate.unknown.length === 0,
+                unpriced: [...estimate.unpriced.map(item => item.name), ...estimate.unknown],
+            },
+            lockIn: {
+                level: levelOrder[Math.max(...lockIn.map(item => levelOrder.indexOf(item.level)))],
+                reasons: lockIn.map(item => item.reason),
+            },
+            learningCurve: assessLearningCurve(productInfo, missing.map(relation => relation.to.name)),
+            integrationFit: {
+                level: conflicts.length > 0 ? 'poor' : missing.length > 0 ? 'partial' : 'good',
+                reasons: [
+                    ...conflicts.map(relation => `Conflict: ${relation.from.name} / ${relation.to.name}${relation.notes ? ` (${relation.notes})` : ''}`),
+                    ...missing.map(relation => `${relation.from.name} requires ${relation.to.name}`),
+                    ...integrations.map(relation => `${relation.from.name} integrates with ${relation.to.name}`),
+                    ...(unknown.length > 0 ? [`Not in the relation graph: ${unknown.join(', ')}`] : []),
+                    ...(conflicts.length + missing.length + integrations.length === 0 && unknown.length < names.length ? ['No known conflicts or missing requirements'] : []),
+                ],
+            },
+            docs: pages
+                .filter(page => products.some(product => product.documentationUrl === page.url))
+                .map(page => ({ url: page.url, title: page.title, excerpt: truncate(page.text, EXCERPT_LENGTH), stale: page.stale })),
+        });
+    }
+
+    return {
+        options,
+        context,
+        usage: estimateUsage!.usage,
+        assumptions: estimateUsage!.assumptions,
+        table: buildComparisonTable(options),
+    };
+}
+
+/**
+  * Read a comparison from a compareStacks tool output ({ message, result: { success, ...comparison } })
+  *
+  * @returns The comparison, or null for other outputs and failed comparisons
+  */
+export function readComparison(output: unknown): StackComparison | null {
+    const result = (unwrapToolOutput(output) as { result?: { success?: boolean } & Partial<StackComparison> } | null)?.result;
+
+    if (!result?.success || !Array.isArray(result.options) || !result.table) {
+        return null;
+    }
+
+    const { success, ...comparison } = result;
+    return comparison as StackComparison;
+}
+
+/**
+  * Find the comparisons made in a list of stored messages
+  */
+export function extractComparisons(messages: Array<{ role: string; content: any }>): Array<{ toolCallId: string; comparison: StackComparison }> {
+    return messages.flatMap(msg => Array.isArray(msg.content) ? msg.content : [])
+        .filter((part: any) => part?.type === 'tool-result' && part.toolName === 'compareStacks')
+        .map((part: any) => ({ toolCallId: part.toolCallId as string, comparison: readComparison(part.output) }))
+        .filter((item): item is { toolCallId: string; comparison: StackComparison } => item.comparison !== null);
+}
+
+/**
+  * Index of the option whose products are all in the stack (the one kept), or -1
+  */
+export function findKeptOption(comparison: StackComparison, stack: StackRecommendation | null): number {
+    const inStack = new Set((stack?.entries ?? []).map(entry => nameKey(entry.name)));
+    return comparison.options.findIndex(option =>
+        option.products.length > 0 && option.products.every(product => inStack.has(nameKey(product.product ?? product.name))));
+}
+
+/**
+  * Keep one option of a comparison in a thread's stack
+  *
+  * Entries for the products of every option are replaced by the kept option's products,
+  * so switching to another option later swaps them again. Other entries stay.
+  * Products the catalog has no pricing for keep the estimate and rationale of their
+  * existing entry, if the stack has one.
+  *
+  * @param stack - The thread's stack (null when none was recommended yet)
+  * @param comparison - The comparison the option comes from
+  * @param index - Index of the option to keep
+  */
+export function keepComparisonOption(stack: StackRecommendation | null, comparison: StackComparison, index: number): StackRecommendation {
+    const option = comparison.options[index];
+    const others = comparison.options.filter((_, optionIndex) => optionIndex !== index).map(other => other.label);
+
+    const compared = new Set(comparison.options.flatMap(item => item.products).flatMap(product => [nameKey(product.name), nameKey(product.product ?? product.name)]));
+
+    const kept: StackEntry[] = option.products.map((product) => {
+        const name = product.product ?? product.name;
+        const existing = stack?.entries.find(entry => [nameKey(name), nameKey(product.name)].includes(nameKey(entry.name)));
+        const entry = { layer: product.layer, name, provider: product.provider ?? existing?.provider ?? '', catalogRef: product.catalogRef };
+
+        if (product.monthlyCost !== null) {
+            return {
+                ...entry,
+                rationale: `Chosen over ${others.join(' and ')} in a side-by-side comparison`,
+                estimatedMonthlyCost: { min: product.monthlyCost, max: product.monthlyCost, notes: `${product.tier} tier at the compared usage` },
+            };
+        }
+
+        // No catalog pricing: the estimate already in the stack is better than $0
+        return existing
+            ? { ...entry, rationale: existing.rationale, estimatedMonthlyCost: existing.estimatedMonthlyCost }
+            : {
+                ...entry,
+                rationale: `Chosen over ${others.join(' and ')} in a side-by-side comparison`,
+                estimatedMonthlyCost: { min: 0, max: 0, notes: 'No pricing data in the catalog' },
+            };
+    });
+
+    const entries = [...(stack?.entries ?? []).filter(entry => !compared.has(nameKey(entry.name))), ...kept];
+
+    return {
+        summary: stack?.summary || `${option.label}, chosen in a side-by-side comparison`,
+        entries,
+        totalEstimatedMonthlyCost: {
+            min: entries.reduce((total, entry) => total + entry.estimatedMonthlyCost.min, 0),
+            max: entries.reduce((total, entry) => total + entry.estimatedMonthlyCost.max, 0),
+        },
+        generatedAt: new Date().toISOString(),
+    };
+}
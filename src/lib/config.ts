@@ -2,8 +2,6 @@
   * Application Configuration
   */
 
-import { anthropic } from '@ai-sdk/anthropic';
-
 import tools from './tools'
 import systemPrompt from './prompt';
 
@@ -39,13 +37,105 @@ async function getAnthropicModelID(modelName: string): Promise<string> {
 }
 
 const config = {
-    testingEmail: 'testing123@buildloom.ai',
-    provider: 'anthropic',
-    providerFunction: anthropic,
-    model: 'claude-sonnet-4.5', // Use model name directly; getAnthropicModelID can be called separately if needed
+    // Default provider and model for new threads; AI_PROVIDER=mock runs offline (see src/lib/providers.ts)
+    provider: process.env.AI_PROVIDER || 'anthropic',
+    model: process.env.AI_MODEL || 'claude-sonnet-4.5', // Use model name directly; getAnthropicModelID can be called separately if needed
+    // Selectable providers, their aliases and the models a request may pick
+    // Aliases are matched case-insensitively, ignoring spaces and punctuation
+    // devOnly providers are only selectable in development (or when set as the default provider)
+    providers: {
+        anthropic: {
+            aliases: ['claude'],
+            models: ['claude-sonnet-4.5', 'claude-haiku-4.5', 'claude-opus-4.1'],
+        },
+        openai: {
+            aliases: ['chatgpt', 'gpt', 'copilot', 'mscopilot', 'microsoftcopilot', 'ghcopilot', 'githubcopilot'],
+            models: ['gpt-5', 'gpt-5-mini'],
+        },
+        google: {
+            aliases: ['gemini'],
+            models: ['gemini-2.5-flash', 'gemini-2.5-pro'],
+        },
+        xai: {
+            aliases: ['x', 'grok'],
+            models: ['grok-4', 'grok-3-mini'],
+        },
+        mock: {
+            aliases: ['test'],
+            models: ['mock-model'],
+            devOnly: true,
+        },
+    } as Record<string, { aliases: string[]; models: string[]; devOnly?: boolean }>,
     systemPrompt,
     tools,
+    defaultMode: 'general', // Mode for threads that never picked one (see src/lib/modes.ts)
     maxThreadsPerUser: 5, // Maximum number of threads a user can create
+    // Dollars per million tokens, used to cost every model call (see src/lib/usage.ts)
+    // Models missing from the table are costed with 'default'
+    modelPricing: {
+        'claude-sonnet-4.5': { inputPerMillion: 3, outputPerMillion: 15, cachedInputPerMillion: 0.3 },
+        'claude-haiku-4.5': { inputPerMillion: 1, outputPerMillion: 5, cachedInputPerMillion: 0.1 },
+        'claude-opus-4.1': { inputPerMillion: 15, outputPerMillion: 75, cachedInputPerMillion: 1.5 },
+        'gpt-5': { inputPerMillion: 1.25, outputPerMillion: 10, cachedInputPerMillion: 0.125 },
+        'gpt-5-mini': { inputPerMillion: 0.25, outputPerMillion: 2, cachedInputPerMillion: 0.025 },
+        'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, cachedInputPerMillion: 0.075 },
+        'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10, cachedInputPerMillion: 0.31 },
+        'grok-4': { inputPerMillion: 3, outputPerMillion: 15, cachedInputPerMillion: 0.75 },
+        'grok-3-mini': { inputPerMillion: 0.3, outputPerMillion: 0.5, cachedInputPerMillion: 0.075 },
+        'mock-model': { inputPerMillion: 0, outputPerMillion: 0, cachedInputPerMillion: 0 },
+        default: { inputPerMillion: 3, outputPerMillion: 15, cachedInputPerMillion: 0.3 },
+    } as Record<string, { inputPerMillion: number; outputPerMillion: number; cachedInputPerMillion: number }>,
+    // Hard spending limits in dollars, checked before every generation (see src/lib/budget.ts)
+    budget: {
+        perThreadDollars: 2,
+        perUserMonthlyDollars: 10,
+        warnAtFraction: 0.8, // Warn in the chat UI once this fraction of a limit is spent
+    },
+    // Embedding model for semantic catalog search (see src/lib/catalogEmbeddings.ts)
+    // 'local' is a deterministic hashing model that runs offline; e.g. EMBEDDING_PROVIDER=openai EMBEDDING_MODEL=text-embedding-3-small
+    embeddings: {
+        provider: process.env.EMBEDDING_PROVIDER || 'local',
+        model: process.env.EMBEDDING_MODEL || 'hash-512',
+    },
+    // Web search for the search and getPageContent tools (see src/lib/search/)
+    // 'exa' needs EXA_SEARCH_API_KEY, 'searxng' a SearXNG instance with the JSON format enabled, 'mock' runs offline
+    search: {
+        provider: process.env.SEARCH_PROVIDER || 'exa',
+        searxngUrl: process.env.SEARXNG_URL || 'http://localhost:8080',
+        maxResults: 10,
+        timeoutMs: 15000,
+    },
+    // Documentation fetched by the getPageContent tool (see src/lib/documentation.ts)
+    // DOCS_OFFLINE=true serves only cached pages, e.g. for demos without network access
+    documentation: {
+        cacheTtlHours: Number(process.env.DOCS_CACHE_TTL_HOURS) || 168, // Refetch cached pages after a week
+        offline: process.env.DOCS_OFFLINE === 'true',
+        fetchTimeoutMs: 15000, // Per page, for the plain HTTP fetcher
+        maxBytes: 5_000_000, // Cap on the downloaded size of a page, for the plain HTTP fetcher
+        maxRedirects: 5,
+        maxChars: 50000, // Cap on the stored text of a page
+    },
+    // Limits for model-written JavaScript run by the runJSCode tool (see src/lib/sandbox.ts)
+    sandbox: {
+        timeoutMs: 2000, // CPU time for the code
+        memoryMb: 32, // Heap limit of the worker
+        maxOutputChars: 10000, // Cap on the result and on console output
+    },
+    auth: {
+        // Enabled sign-in providers (see src/lib/auth/); magic links need a mail transport outside development
+        providers: ['password', ...(import.meta.env.DEV || process.env.RESEND_API_KEY ? ['magic-link'] : [])],
+        sessionCookie: 'buildloom-session',
+        sessionMaxAgeDays: 30,
+        magicLinkMaxAgeMinutes: 15,
+        minPasswordLength: 8,
+        // Magic links are emailed through Resend (RESEND_API_KEY, MAIL_FROM); in development they are logged instead
+        mail: {
+            resendApiKey: process.env.RESEND_API_KEY || '',
+            from: process.env.MAIL_FROM || 'BuildLoom <no-reply@buildloom.dev>',
+        },
+        // Accounts created with these emails get the admin role (comma-separated ADMIN_EMAILS)
+        adminEmails: (process.env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean),
+    },
     getAnthropicModelID, // Export for use elsewhere if needed
 };
 
@@ -0,0 +1,219 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+    fetchPageOverHttp,
+    getDocumentation,
+    resolvePublicAddress,
+    type DocumentationCache,
+    type DocumentationCacheEntry,
+    type ResolveHost,
+} from './documentation';
+
+/**
+  * In-memory stand-in for the documentation_cache table
+  */
+function createMemoryCache(): DocumentationCache & { entries: Map<string, DocumentationCacheEntry> } {
+    const entries = new Map<string, DocumentationCacheEntry>();
+    return {
+        entries,
+        async get(urls) {
+            return urls.flatMap(url => entries.get(url) ?? []);
+        },
+        async put(rows) {
+            for (const row of rows) {
+                entries.set(row.url, row);
+            }
+        },
+    };
+}
+
+// Local HTTP stand-in for documentation sites; `failing` makes every page answer 500
+let server: Server;
+let baseUrl: string;
+let failing = false;
+const hits = new Map<string, number>();
+let lastHost: string | undefined;
+
+beforeAll(async () => {
+    server = createServer((request, response) => {
+        hits.set(request.url!, (hits.get(request.url!) ?? 0) + 1);
+        lastHost = request.headers.host;
+
+        if (failing) {
+            response.writeHead(500).end();
+            return;
+        }
+
+        switch (request.url) {
+            case '/html':
+                response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                response.end(`<!doctype html><html><head><title>Getting started</title><style>.x{}</style></head>
+                    <body><nav>Home | Docs</nav><main><h1>Install</h1><p>Run   npm install</p><script>track()</script></main><footer>©</footer></body></html>`);
+                return;
+            case '/plain':
+                response.writeHead(200, { 'Content-Type': 'text/plain' });
+                response.end('  Plain text docs\n');
+                return;
+            case '/versioned':
+                response.writeHead(200, { 'Content-Type': 'text/plain' });
+                response.end(`Version ${hits.get('/versioned')}`);
+                return;
+            case '/redirect-docs':
+                response.writeHead(302, { Location: 'http://docs.example/plain' }).end();
+                return;
+            case '/redirect-private':
+                response.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' }).end();
+                return;
+            case '/large':
+                response.writeHead(200, { 'Content-Type': 'text/plain' });
+                response.end('x'.repeat(10_000));
+                return;
+            default:
+                response.writeHead(404).end();
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+    failing = false;
+    hits.clear();
+});
+
+describe('fetchPageOverHttp', () => {
+    it('extracts the title and main text of an HTML page', async () => {
+        const page = await fetchPageOverHttp(`${baseUrl}/html`, { allowLoopback: true });
+
+        expect(page.title).toBe('Getting started');
+        expect(page.text).toBe('Install\nRun npm install');
+        expect(page.source).toBe('http');
+    });
+
+    it('returns text/plain bodies as they are', async () => {
+        const page = await fetchPageOverHttp(`${baseUrl}/plain`, { allowLoopback: true });
+
+        expect(page).toMatchObject({ title: '', text: 'Plain text docs' });
+    });
+
+    it('refuses loopback and private addresses by default', async () => {
+        await expect(fetchPageOverHttp(`${baseUrl}/plain`)).rejects.toThrow(/port|private/);
+        await expect(resolvePublicAddress(new URL('http://127.0.0.1/'))).rejects.toThrow(/private or reserved/);
+        await expect(resolvePublicAddress(new URL('http://169.254.169.254/latest/meta-data/'))).rejects.toThrow(/private or reserved/);
+        await expect(resolvePublicAddress(new URL('http://10.0.0.1/'))).rejects.toThrow(/private or reserved/);
+        await expect(resolvePublicAddress(new URL('http://[::ffff:192.168.0.1]/'))).rejects.toThrow(/private or reserved/);
+        await expect(resolvePublicAddress(new URL('http://[::1]/'))).rejects.toThrow(/private or reserved/);
+        await expect(resolvePublicAddress(new URL('file:///etc/passwd'))).rejects.toThrow(/http and https/);
+        await expect(resolvePublicAddress(new URL('http://93.184.215.14:8080/'))).rejects.toThrow(/ports 80 and 443/);
+        await expect(resolvePublicAddress(new URL('https://93.184.215.14/'))).resolves.toBe('93.184.215.14');
+    });
+
+    it('connects to the address that was checked, not to a second DNS answer', async () => {
+        // A rebinding resolver: loopback (allowed here) first, a private address after that
+        const answers: string[][] = [];
+        const resolve: ResolveHost = async () => {
+            answers.push(answers.length === 0 ? ['127.0.0.1'] : ['169.254.169.254']);
+            return answers.at(-1)!;
+        };
+        const port = new URL(baseUrl).port;
+
+        const page = await fetchPageOverHttp(`http://docs.example:${port}/plain`, { allowLoopback: true, resolve });
+
+        expect(page.text).toBe('Plain text docs');
+        expect(answers).toEqual([['127.0.0.1']]);
+        expect(lastHost).toBe(`docs.example:${port}`);
+    });
+
+    it('resolves the host again for every redirect', async () => {
+        let calls = 0;
+        const resolve: ResolveHost = async () => (calls++ === 0 ? ['127.0.0.1'] : ['10.0.0.1']);
+        const port = new URL(baseUrl).port;
+
+        await expect(fetchPageOverHttp(`http://docs.example:${port}/redirect-docs`, { allowLoopback: true, resolve })).rejects.toThrow(/private or reserved address \(10\.0\.0\.1\)/);
+        expect(calls).toBe(2);
+        expect(hits.get('/plain')).toBeUndefined();
+    });
+
+    it('checks every redirect target', async () => {
+        await expect(fetchPageOverHttp(`${baseUrl}/redirect-private`, { allowLoopback: true })).rejects.toThrow(/private or reserved/);
+    });
+
+    it('gives up on bodies larger than maxBytes', async () => {
+        await expect(fetchPageOverHttp(`${baseUrl}/large`, { allowLoopback: true, maxBytes: 1000 })).rejects.toThrow(/larger than 1000 bytes/);
+    });
+});
+
+describe('getDocumentation', () => {
+    it('caches fetched pages and serves them from the cache while fresh', async () => {
+        const cache = createMemoryCache();
+        const url = `${baseUrl}/versioned`;
+
+        const first = await getDocumentation([url], { cache, allowLoopback: true });
+        const second = await getDocumentation([url], { cache, allowLoopback: true });
+
+        expect(first.pages[0]).toMatchObject({ text: 'Version 1', cached: false, stale: false });
+        expect(second.pages[0]).toMatchObject({ text: 'Version 1', cached: true, stale: false });
+        expect(hits.get('/versioned')).toBe(1);
+    });
+
+    it('refetches pages once their TTL has expired', async () => {
+        const cache = createMemoryCache();
+        const url = `${baseUrl}/versioned`;
+
+        await getDocumentation([url], { cache, allowLoopback: true });
+        cache.entries.get(url)!.expiresAt = new Date(Date.now() - 1000);
+
+        const result = await getDocumentation([url], { cache, allowLoopback: true });
+
+        expect(result.pages[0]).toMatchObject({ text: 'Version 2', cached: false, stale: false });
+        expect(cache.entries.get(url)!.text).toBe('Version 2');
+        expect(cache.entries.get(url)!.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('serves the expired copy, marked stale, when the refetch fails', async () => {
+        const cache = createMemoryCache();
+        const url = `${baseUrl}/versioned`;
+
+        await getDocumentation([url], { cache, allowLoopback: true });
+        cache.entries.get(url)!.expiresAt = new Date(Date.now() - 1000);
+        failing = true;
+
+        const result = await getDocumentation([url], { cache, allowLoopback: true });
+
+        expect(hits.get('/versioned')).toBe(2);
+        expect(result.pages[0]).toMatchObject({ text: 'Version 1', cached: true, stale: true });
+        expect(result.errors).toEqual([]);
+    });
+
+    it('reports pages that fail without a cached copy', async () => {
+        failing = true;
+
+        const result = await getDocumentation([`${baseUrl}/plain`], { cache: createMemoryCache(), allowLoopback: true });
+
+        expect(result.pages).toEqual([]);
+        expect(result.errors).toEqual([{ url: `${baseUrl}/plain`, error: 'HTTP 500 Internal Server Error' }]);
+    });
+
+    it('only serves cached pages, however old, in offline mode', async () => {
+        const cache = createMemoryCache();
+        const cachedUrl = `${baseUrl}/versioned`;
+        const uncachedUrl = `${baseUrl}/plain`;
+
+        await getDocumentation([cachedUrl], { cache, allowLoopback: true });
+        cache.entries.get(cachedUrl)!.expiresAt = new Date(Date.now() - 1000);
+        hits.clear();
+
+        const result = await getDocumentation([cachedUrl, uncachedUrl], { cache, offline: true, allowLoopback: true });
+
+        expect(hits.size).toBe(0);
+        expect(result.pages).toEqual([expect.objectContaining({ url: cachedUrl, text: 'Version 1', cached: true, stale: true })]);
+        expect(result.errors).toEqual([{ url: uncachedUrl, error: 'Not cached (offline mode)' }]);
+    });
+});
@@ -0,0 +1,395 @@
+/**
+  * Documentation Fetching
+  *
+  * Page text for the getPageContent tool, cached in documentation_cache so the
+  * same documentation URLs are fetched once across threads:
+  * - Fresh cache entries (younger than config.documentation.cacheTtlHours) are served as-is
+  * - Other pages are fetched with the search provider (see search/) when it can fetch
+  *   pages (Exa), and over plain HTTP (text extracted with jsdom) when it can't or fails
+  * - If fetching fails, an expired entry is served instead (marked stale)
+  * - Offline mode (DOCS_OFFLINE=true) only serves the cache, however old it is
+  *
+  * URLs come from the model, so the plain HTTP fetcher only reaches public
+  * addresses: http(s) on the default ports, hosts that don't resolve to
+  * loopback, link-local or private ranges (checked again on every redirect),
+  * and bodies up to config.documentation.maxBytes. The connection goes to the
+  * address that was checked, so a host can't pass the check and then resolve
+  * to a private address for the request (DNS rebinding).
+  */
+
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { JSDOM } from 'jsdom';
+import { inArray, sql } from 'drizzle-orm';
+
+import { db } from '../db/initialize';
+import { documentationCacheTable } from '../db/schema';
+import config from './config';
+import { getSearchProvider } from './search';
+
+export interface DocumentationPage {
+    url: string;
+    title: string;
+    text: string;
+    // 'http' or the search provider that fetched the page, e.g. 'exa'
+    source: string;
+    fetchedAt: string;
+    // Served from the cache rather than fetched now
+    cached: boolean;
+    // Older than the cache TTL (served because fetching failed or in offline mode)
+    stale: boolean;
+}
+
+export interface DocumentationResult {
+    pages: DocumentationPage[];
+    errors: Array<{ url: string; error: string }>;
+}
+
+type FetchedPage = { url: string; title: string; text: string; source: string };
+
+export type DocumentationCacheEntry = typeof documentationCacheTable.$inferSelect;
+
+/**
+  * Where fetched pages are kept between calls (documentation_cache by default)
+  */
+export interface DocumentationCache {
+    get(urls: string[]): Promise<DocumentationCacheEntry[]>;
+    // Insert or replace entries by URL
+    put(entries: DocumentationCacheEntry[]): Promise<void>;
+}
+
+export const databaseDocumentationCache: DocumentationCache = {
+    async get(urls) {
+        return db
+            .select()
+            .from(documentationCacheTable)
+            .where(inArray(documentationCacheTable.url, urls));
+    },
+    async put(entries) {
+        await db
+            .insert(documentationCacheTable)
+            .values(entries)
+            .onConflictDoUpdate({
+                target: documentationCacheTable.url,
+                set: {
+                    title: sql`excluded.title`,
+                    text: sql`excluded.text`,
+                    source: sql`excluded.source`,
+                    fetchedAt: sql`excluded.fetched_at`,
+                    expiresAt: sql`excluded.expires_at`,
+                },
+            });
+    },
+};
+
+// Addresses the plain HTTP fetcher refuses to connect to
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// Loopback only, which tests against a local server may allow
+const loopbackAddresses = new BlockList();
+loopbackAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+loopbackAddresses.addAddress('::1', 'ipv6');
+
+/**
+  * Check whether an IP address is in a list, matching IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) as IPv4
+  */
+function isListed(list: BlockList, address: string): boolean {
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+    return mapped ? list.check(mapped, 'ipv4') : list.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+  * Resolve a hostname to all of its addresses
+  */
+export type ResolveHost = (hostname: string) => Promise<string[]>;
+
+const resolveHost: ResolveHost = async (hostname) =>
+    (await lookup(hostname, { all: true, verbatim: true })).map(result => result.address);
+
+/**
+  * Check that a URL may be fetched: http(s) on port 80/443, and a host that only
+  * resolves to public addresses
+  *
+  * @param options.allowLoopback - Let loopback addresses through (tests against a local server)
+  * @param options.resolve - Hostname resolver (default: the system resolver)
+  * @returns The address to connect to (the first one resolved)
+  * @throws If the URL is not allowed
+  */
+export async function resolvePublicAddress(
+    url: URL,
+    { allowLoopback = false, resolve = resolveHost }: { allowLoopback?: boolean; resolve?: ResolveHost } = {}
+): Promise<string> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Only http and https URLs can be fetched: ${url.href}`);
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(hostname) ? [hostname] : await resolve(hostname);
+    if (addresses.length === 0) {
+        throw new Error(`${url.hostname} does not resolve to any address`);
+    }
+    const loopbackAllowed = allowLoopback && addresses.every(address => isListed(loopbackAddresses, address));
+
+    if (url.port !== '' && url.port !== '80' && url.port !== '443' && !loopbackAllowed) {
+        throw new Error(`Only ports 80 and 443 can be fetched: ${url.href}`);
+    }
+
+    if (!loopbackAllowed) {
+        const blocked = addresses.find(address => isListed(blockedAddresses, address));
+        if (blocked) {
+            throw new Error(`${url.hostname} resolves to a private or reserved address (${blocked})`);
+        }
+    }
+
+    return addresses[0];
+}
+
+/**
+  * Send a GET request to a URL, connecting to the given (already checked) address
+  *
+  * The socket's lookup returns the address instead of resolving the host again;
+  * the Host header and TLS certificate check still use the URL's hostname.
+  */
+function requestAddress(url: URL, address: string, signal: AbortSignal): Promise<IncomingMessage> {
+    const family = isIP(address);
+    const pinnedLookup = ((_hostname, options, callback) => {
+        if (options.all) {
+            callback(null, [{ address, family }]);
+        } else {
+            callback(null, address, family);
+        }
+    }) as LookupFunction;
+
+    return new Promise((resolve, reject) => {
+        const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+            headers: { 'User-Agent': 'BuildLoom documentation fetcher', Accept: 'text/html, text/plain;q=0.9' },
+            lookup: pinnedLookup,
+            signal,
+        }, resolve);
+        request.on('error', reject);
+        request.end();
+    });
+}
+
+/**
+  * Read a response body as text, giving up once it is larger than maxBytes
+  */
+async function readBody(response: IncomingMessage, maxBytes: number): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of response as AsyncIterable<Buffer>) {
+        size += chunk.byteLength;
+        if (size > maxBytes) {
+            response.destroy();
+            throw new Error(`Page is larger than ${maxBytes} bytes`);
+        }
+        chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+// Elements that hold navigation and chrome rather than page content
+const NON_CONTENT_SELECTOR = 'script, style, noscript, template, svg, iframe, nav, header, footer, aside, form, [role="navigation"], [aria-hidden="true"]';
+
+/**
+  * Extract the title and readable text of an HTML page
+  *
+  * Drops scripts, styles and navigation, and prefers the <main>/<article> element when there is one.
+  */
+export function extractPageText(html: string): { title: string; text: string } {
+    const { document } = new JSDOM(html).window;
+
+    const title = (document.querySelector('title')?.textContent || document.querySelector('h1')?.textContent || '').trim();
+
+    for (const element of document.querySelectorAll(NON_CONTENT_SELECTOR)) {
+        element.remove();
+    }
+
+    // Keep block boundaries as line breaks before reading textContent
+    for (const element of document.querySelectorAll('p, li, h1, h2, h3, h4, h5, h6, pre, tr, br, div, section')) {
+        element.append(document.createTextNode('\n'));
+    }
+
+    const root = document.querySelector('main, article, [role="main"]') || document.body;
+    const text = (root?.textContent || '')
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+
+    return { title, text };
+}
+
+/**
+  * Fetch a page over plain HTTP and extract its text
+  *
+  * Redirects are followed by hand so every hop goes through resolvePublicAddress,
+  * and each request connects to the address that was checked.
+  *
+  * @param options.resolve - Hostname resolver (default: the system resolver)
+  */
+export async function fetchPageOverHttp(
+    url: string,
+    {
+        timeoutMs = config.documentation.fetchTimeoutMs,
+        maxBytes = config.documentation.maxBytes,
+        allowLoopback = false,
+        resolve,
+    }: { timeoutMs?: number; maxBytes?: number; allowLoopback?: boolean; resolve?: ResolveHost } = {}
+): Promise<FetchedPage> {
+    const signal = AbortSignal.timeout(timeoutMs);
+    let target = new URL(url);
+    let response: IncomingMessage;
+
+    for (let redirects = 0; ; redirects++) {
+        const address = await resolvePublicAddress(target, { allowLoopback, resolve });
+        response = await requestAddress(target, address, signal);
+
+        const status = response.statusCode ?? 0;
+        const location = response.headers.location;
+        if (status < 300 || status >= 400 || !location) {
+            break;
+        }
+
+        response.destroy();
+        if (redirects >= config.documentation.maxRedirects) {
+            throw new Error(`Too many redirects (more than ${config.documentation.maxRedirects})`);
+        }
+        target = new URL(location, target);
+    }
+
+    const status = response.statusCode ?? 0;
+    if (status < 200 || status >= 300) {
+        response.destroy();
+        throw new Error(`HTTP ${status} ${response.statusMessage || ''}`.trim());
+    }
+
+    const contentType = response.headers['content-type'] || '';
+
+    if (contentType && !contentType.includes('html') && !contentType.includes('text/plain') && !contentType.includes('markdown')) {
+        response.destroy();
+        throw new Error(`Unsupported content type: ${contentType}`);
+    }
+
+    const body = await readBody(response, maxBytes);
+
+    if (contentType.includes('text/plain') || contentType.includes('markdown')) {
+        return { url, title: '', text: body.trim(), source: 'http' };
+    }
+
+    return { url, ...extractPageText(body), source: 'http' };
+}
+
+/**
+  * Fetch pages that are missing from the cache or expired
+  *
+  * @returns Fetched pages, and the error for each URL that could not be fetched
+  */
+async function fetchPages(urls: string[], { allowLoopback }: { allowLoopback: boolean }): Promise<{ fetched: FetchedPage[]; errors: Map<string, string> }> {
+    const fetched: FetchedPage[] = [];
+    const errors = new Map<string, string>();
+    const provider = getSearchProvider();
+
+    if (provider.getContents) {
+        try {
+            const pages = await provider.getContents(urls);
+            fetched.push(...pages.map(page => ({ ...page, source: provider.name })));
+        } catch (error) {
+            console.warn(`⚠️ ${provider.name} page fetch failed, falling back to plain HTTP:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    const remaining = urls.filter(url => !fetched.some(page => page.url === url));
+
+    await Promise.all(remaining.map(async (url) => {
+        try {
+            fetched.push(await fetchPageOverHttp(url, { allowLoopback }));
+        } catch (error) {
+            errors.set(url, error instanceof Error ? error.message : String(error));
+        }
+    }));
+
+    return { fetched, errors };
+}
+
+/**
+  * Get the text of documentation pages, from the cache where possible
+  *
+  * @param urls - Page URLs
+  * @param options.offline - Only serve cached pages (default: config.documentation.offline)
+  * @param options.cache - Where pages are cached (default: the documentation_cache table)
+  * @param options.allowLoopback - Let the HTTP fetcher reach loopback addresses (tests against a local server)
+  */
+export async function getDocumentation(
+    urls: string[],
+    {
+        offline = config.documentation.offline,
+        cache: store = databaseDocumentationCache,
+        allowLoopback = false,
+    }: { offline?: boolean; cache?: DocumentationCache; allowLoopback?: boolean } = {}
+): Promise<DocumentationResult> {
+    const uniqueUrls = [...new Set(urls.map(url => url.trim()).filter(Boolean))];
+    const now = new Date();
+
+    const cachedRows = uniqueUrls.length === 0 ? [] : await store.get(uniqueUrls);
+
+    const cache = new Map(cachedRows.map(row => [row.url, row]));
+    const fromCache = (url: string): DocumentationPage | null => {
+        const row = cache.get(url);
+        return row
+            ? { url, title: row.title, text: row.text, source: row.source, fetchedAt: row.fetchedAt.toISOString(), cached: true, stale: row.expiresAt <= now }
+            : null;
+    };
+
+    const toFetch = offline ? [] : uniqueUrls.filter(url => !cache.has(url) || cache.get(url)!.expiresAt <= now);
+    const { fetched, errors } = toFetch.length > 0 ? await fetchPages(toFetch, { allowLoopback }) : { fetched: [], errors: new Map<string, string>() };
+
+    if (fetched.length > 0) {
+        const expiresAt = new Date(now.getTime() + config.documentation.cacheTtlHours * 60 * 60 * 1000);
+
+        try {
+            await store.put(fetched.map(page => ({
+                ...page,
+                text: page.text.slice(0, config.documentation.maxChars),
+                fetchedAt: now,
+                expiresAt,
+            })));
+        } catch (error) {
+            console.warn('⚠️ Failed to cache documentation:', error instanceof Error ? error.message : error);
+        }
+    }
+
+    const result: DocumentationResult = { pages: [], errors: [] };
+
+    for (const url of uniqueUrls) {
+        const page = fetched.find(candidate => candidate.url === url);
+
+        if (page) {
+            result.pages.push({ ...page, text: page.text.slice(0, config.documentation.maxChars), fetchedAt: now.toISOString(), cached: false, stale: false });
+            continue;
+        }
+
+        const cachedPage = fromCache(url);
+
+        if (cachedPage) {
+            result.pages.push(cachedPage);
+        } else {
+            result.errors.push({ url, error: offline ? 'Not cached (offline mode)' : errors.get(url) || 'Could not fetch the page' });
+        }
+    }
+
+    return result;
+}
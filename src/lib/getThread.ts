@@ -1,31 +1,178 @@
 /**
   * Thread Fetching Utility
   *
-  * Provides a function to fetch thread data from the database
-  * Used for server-side rendering of chat history
+  * Provides functions to fetch thread data from the database
+  * Used for server-side rendering of chat history (by the owner) and of
+  * share pages (by anyone with the share link)
+  * Also loads threads for changes by their owner (thread API)
   */
 
 import { db } from '../db/initialize';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { threadsTable } from '../db/schema';
-import config from './config';
+import type { StackRecommendation } from './types';
+import { extractComparisons, type StackComparison } from './comparison';
+import { extractSources, type MessageSource } from './threadMessages';
+import { getMessagePath, getVersions, readThreadTree } from './threadTree';
+
+export interface DisplayMessage {
+    role: string;
+    content: string | any;
+    // Tool calls made while answering (only when requested with includeSources)
+    sources?: MessageSource[];
+    // Comparisons made while answering (compareStacks), shown as tables under the answer
+    comparisons?: Array<{ toolCallId: string; comparison: StackComparison }>;
+    // On the user message and the first answer of each turn: the stored message
+    // (for an answer, the first message of the reply), the message it follows and
+    // the ids of its versions (edits or regenerations, oldest first) to switch between
+    id?: string;
+    parentId?: string | null;
+    versions?: string[];
+}
 
 export interface ThreadData {
     id: string;
     title: string;
-    messages: Array<{ role: string; content: string | any }>;
+    messages: DisplayMessage[];
+    stack: StackRecommendation | null;
+    // Provider and model saved on the thread (null until the first reply)
+    provider: string | null;
+    model: string | null;
+    // Mode saved on the thread (null until the first reply)
+    mode: string | null;
+    // Total cost of the thread's model calls in dollars
+    cost: number;
+    // Last message of the branch shown (see threadTree.ts)
+    activeMessageId: string | null;
+    // Token of the share link (/share/[token]), null while the thread isn't shared
+    shareToken: string | null;
+}
+
+// Content parts that are never rendered as chat bubbles
+const hiddenPartTypes = ['tool-call', 'tool-result', 'reasoning'];
+
+/**
+  * Convert one stored user/assistant message into the messages shown in the chat
+  *
+  * Array content is split into one message per displayable part.
+  */
+function toDisplayMessages(msg: any): DisplayMessage[] {
+    let content = msg.content;
+
+    // If content is an array, filter out tool-call/tool-result/reasoning items and create separate messages
+    if (Array.isArray(content)) {
+        const filteredContent = content.filter((item: any) => !hiddenPartTypes.includes(item?.type));
+
+        // If no content left after filtering, skip this message
+        if (filteredContent.length === 0) {
+            return [];
+        }
+
+        // Create a separate message for each array item
+        return filteredContent.map((item: any) => {
+            let messageContent: string;
+
+            // If item has a text property, use that
+            if (item && typeof item === 'object' && 'text' in item) {
+                messageContent = item.text;
+            }
+            // If item is a string, use it directly
+            else if (typeof item === 'string') {
+                messageContent = item;
+            }
+            // Otherwise stringify the object
+            else {
+                messageContent = JSON.stringify(item);
+            }
+
+            return {
+                role: msg.role,
+                content: messageContent
+            };
+        });
+    }
+
+    // If content is an object with type: "tool-call", skip this message
+    if (typeof content === 'object' && !Array.isArray(content) && content?.type === 'tool-call') {
+        return [];
+    }
+
+    // Single message with string content
+    return [{
+        role: msg.role,
+        content: typeof content === 'string' ? content : JSON.stringify(content)
+    }];
+}
+
+export type Thread = typeof threadsTable.$inferSelect;
+
+/**
+  * Load a thread and check that the signed-in user owns it (for the thread API)
+  *
+  * @returns The thread, or an error Response (400/401/403/404) to return as-is
+  */
+export async function findOwnedThread(threadId: string | undefined, userEmail: string | undefined): Promise<Thread | Response> {
+    if (!threadId) {
+        return new Response(
+            JSON.stringify({ error: 'Thread ID is required' }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    if (!userEmail) {
+        return new Response(
+            JSON.stringify({ error: 'Authentication required' }),
+            {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    const threads = await db.select().from(threadsTable).where(eq(threadsTable.id, threadId));
+
+    if (threads.length === 0) {
+        return new Response(
+            JSON.stringify({ error: 'Thread not found' }),
+            {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    if (threads[0].email !== userEmail) {
+        console.log(`Unauthorized modification attempt on thread: ${threadId}`);
+        return new Response(
+            JSON.stringify({ error: 'Unauthorized access to thread' }),
+            {
+                status: 403,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    return threads[0];
 }
 
 /**
   * Fetch thread data by ID
   *
+  * Only the owner can load a thread by its ID; shared threads are loaded by
+  * their share token with getSharedThread.
+  *
   * @param threadId - The thread ID to fetch
-  * @param userEmail - The user's email for ownership verification (optional, uses test email by default)
+  * @param userEmail - The signed-in user's email for ownership verification (null when signed out)
+  * @param options.includeSources - Attach each answer's tool calls and results (for the "show sources" view)
   * @returns Thread data or null if not found/unauthorized
   */
 export async function getThread(
     threadId: string,
-    userEmail: string = config.testingEmail
+    userEmail: string | null = null,
+    { includeSources = false }: { includeSources?: boolean } = {}
 ): Promise<ThreadData | null> {
     if (!threadId) {
         return null;
@@ -39,81 +186,116 @@ export async function getThread(
             return null;
         }
 
-        const thread = threads[0];
-
-        // Check thread ownership (unless it's public)
-        if (!thread.isPublic && thread.email && thread.email !== userEmail) {
+        // Check thread ownership
+        if (!userEmail || threads[0].email !== userEmail) {
             console.log(`Unauthorized access attempt to thread: ${threadId}`);
             return null;
         }
 
-        // Extract messages from thread data (excluding system messages, tool messages, and tool-call content)
-        let messages: Array<{ role: string; content: any }> = [];
-        if (
-            thread.thread &&
-            typeof thread.thread === 'object' &&
-            'messages' in thread.thread &&
-            Array.isArray((thread.thread as { messages: any[] }).messages)
-        ) {
-            // Process user/assistant messages and filter out tool-call portions from content
-            messages = (thread.thread as { messages: any[] }).messages
-                .filter((msg: any) => msg.role === 'user' || msg.role === 'assistant')
-                .flatMap((msg: any) => {
-                    let content = msg.content;
-
-                    // If content is an array, filter out tool-call items and create separate messages
-                    if (Array.isArray(content)) {
-                        const filteredContent = content.filter((item: any) => item.type !== 'tool-call');
-
-                        // If no content left after filtering, skip this message
-                        if (filteredContent.length === 0) {
-                            return [];
-                        }
-
-                        // Create a separate message for each array item
-                        return filteredContent.map((item: any) => {
-                            let messageContent: string;
-
-                            // If item has a text property, use that
-                            if (item && typeof item === 'object' && 'text' in item) {
-                                messageContent = item.text;
-                            }
-                            // If item is a string, use it directly
-                            else if (typeof item === 'string') {
-                                messageContent = item;
-                            }
-                            // Otherwise stringify the object
-                            else {
-                                messageContent = JSON.stringify(item);
-                            }
-
-                            return {
-                                role: msg.role,
-                                content: messageContent
-                            };
-                        });
-                    }
-
-                    // If content is an object with type: "tool-call", skip this message
-                    if (typeof content === 'object' && !Array.isArray(content) && content?.type === 'tool-call') {
-                        return [];
-                    }
-
-                    // Single message with string content
-                    return [{
-                        role: msg.role,
-                        content: typeof content === 'string' ? content : JSON.stringify(content)
-                    }];
-                });
-        }
-
-        return {
-            id: thread.id,
-            title: thread.title || '',
-            messages: messages,
-        };
+        return toThreadData(threads[0], { includeSources });
     } catch (error) {
         console.error('Error fetching thread:', error);
         return null;
     }
 }
+
+/**
+  * Fetch a shared thread by its share token (for the public share page)
+  *
+  * @param shareToken - Token from the share link
+  * @param options.includeSources - Attach each answer's tool calls and results
+  * @returns Thread data or null if no thread is shared under the token
+  */
+export async function getSharedThread(
+    shareToken: string,
+    { includeSources = false }: { includeSources?: boolean } = {}
+): Promise<ThreadData | null> {
+    if (!shareToken) {
+        return null;
+    }
+
+    try {
+        const threads = await db
+            .select()
+            .from(threadsTable)
+            .where(and(eq(threadsTable.shareToken, shareToken), eq(threadsTable.isPublic, true)));
+
+        return threads.length > 0 ? toThreadData(threads[0], { includeSources }) : null;
+    } catch (error) {
+        console.error('Error fetching shared thread:', error);
+        return null;
+    }
+}
+
+/**
+  * Build the display data of a loaded thread: the messages of the branch shown, grouped into turns
+  */
+function toThreadData(thread: Thread, { includeSources }: { includeSources: boolean }): ThreadData {
+    // Extract messages from the branch being shown (excluding system messages, tool messages, and tool-call content)
+    const tree = readThreadTree(thread.thread);
+    const messages: DisplayMessage[] = [];
+
+    // Group stored messages into turns (a user message plus everything answering it)
+    // so each turn's tool calls and comparisons can be attached to the turn's final assistant message
+    let turnMessages: any[] = [];
+    let turnDisplay: DisplayMessage[] = [];
+
+    const finishTurn = () => {
+        const lastAssistant = [...turnDisplay].reverse().find(msg => msg.role === 'assistant');
+        if (includeSources && lastAssistant) {
+            lastAssistant.sources = extractSources(turnMessages);
+        }
+
+        const comparisons = extractComparisons(turnMessages);
+        if (lastAssistant && comparisons.length > 0) {
+            lastAssistant.comparisons = comparisons;
+        }
+
+        // Versions of the reply switch on its first answer
+        const replyStart = turnMessages.find(msg => msg.role !== 'user');
+        const firstAssistant = turnDisplay.find(msg => msg.role === 'assistant');
+        if (replyStart && firstAssistant) {
+            firstAssistant.id = replyStart.id;
+            firstAssistant.parentId = replyStart.parentId;
+            firstAssistant.versions = getVersions(tree.messages, replyStart).map(msg => msg.id);
+        }
+
+        messages.push(...turnDisplay);
+        turnMessages = [];
+        turnDisplay = [];
+    };
+
+    for (const msg of getMessagePath(tree.messages, tree.activeMessageId)) {
+        if (msg.role === 'user') {
+            finishTurn();
+        }
+
+        turnMessages.push(msg);
+
+        // Process user/assistant messages and filter out tool-call portions from content
+        if (msg.role === 'user' || msg.role === 'assistant') {
+            const display = toDisplayMessages(msg);
+            if (msg.role === 'user' && display.length > 0) {
+                display[0].id = msg.id;
+                display[0].parentId = msg.parentId;
+                display[0].versions = getVersions(tree.messages, msg).map(version => version.id);
+            }
+            turnDisplay.push(...display);
+        }
+    }
+
+    finishTurn();
+
+    return {
+        id: thread.id,
+        title: thread.title || '',
+        messages: messages,
+        stack: thread.thread?.stack || null,
+        provider: thread.provider,
+        model: thread.model,
+        mode: thread.mode,
+        cost: Number(thread.cost || 0),
+        activeMessageId: tree.activeMessageId,
+        shareToken: thread.isPublic ? thread.shareToken : null,
+    };
+}
@@ -0,0 +1,42 @@
+import { NoSuchModelError } from 'ai';
+import { describe, expect, it } from 'vitest';
+
+import { HashEmbeddingModel, hashEmbed } from './hashEmbedding';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+describe('hashEmbed', () => {
+    it('returns the same vector for the same text', () => {
+        expect(hashEmbed('Realtime multiplayer sync')).toEqual(hashEmbed('Realtime multiplayer sync'));
+    });
+
+    it('returns unit vectors of the requested dimension', () => {
+        const vector = hashEmbed('Postgres database with auth', 64);
+
+        expect(vector).toHaveLength(64);
+        expect(hashEmbed('Postgres database with auth')).toHaveLength(512);
+        expect(cosine(vector, vector)).toBeCloseTo(1);
+    });
+
+    it('scores similar texts closer than unrelated ones', () => {
+        const query = hashEmbed('realtime multiplayer sync');
+        const similar = hashEmbed('Real-time multiplayer synchronization for games');
+        const unrelated = hashEmbed('Invoice and subscription payment processing');
+
+        expect(cosine(query, similar)).toBeGreaterThan(cosine(query, unrelated));
+    });
+});
+
+describe('HashEmbeddingModel', () => {
+    it('embeds with the dimension in its model id', async () => {
+        const { embeddings } = await new HashEmbeddingModel('hash-128').doEmbed({ values: ['a', 'b'] });
+
+        expect(embeddings.map(embedding => embedding.length)).toEqual([128, 128]);
+        expect(embeddings[0]).toEqual(hashEmbed('a', 128));
+    });
+
+    it('rejects model ids without a supported dimension', () => {
+        expect(() => new HashEmbeddingModel('hash-8')).toThrow(NoSuchModelError);
+        expect(() => new HashEmbeddingModel('minilm')).toThrow(NoSuchModelError);
+    });
+});
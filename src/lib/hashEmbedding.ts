@@ -0,0 +1,113 @@
+/**
+  * Hash Embedding Model
+  *
+  * Local, deterministic embedding model registered as provider 'local'
+  * (model 'hash-<dimensions>', e.g. 'hash-512'). It needs no API key or network:
+  * words and character trigrams are hashed into a fixed-size vector
+  * (feature hashing) and L2-normalised, so texts sharing vocabulary and word
+  * fragments ("realtime" / "real-time") end up close. It is weaker than a
+  * trained model but the same text always gives the same vector, which makes
+  * it suitable for tests and offline development.
+  */
+
+import { NoSuchModelError, type EmbeddingModel } from 'ai';
+
+type EmbeddingModelV2 = Exclude<EmbeddingModel<string>, string>;
+
+const DEFAULT_DIMENSIONS = 512;
+
+// Too common to say anything about a product
+const stopWords = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'to', 'with']);
+
+/**
+  * 32-bit FNV-1a hash
+  */
+function fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+  * Words (with a light plural/verb-ending strip) and character trigrams of a text, with weights
+  */
+function features(text: string): Array<[string, number]> {
+    const words = text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word && !stopWords.has(word))
+        .map(word => word.length > 4 ? word.replace(/(ing|ed|es|s)$/, '') : word);
+
+    const result: Array<[string, number]> = [];
+
+    for (const word of words) {
+        result.push([`w:${word}`, 1]);
+
+        const padded = `^${word}$`;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            result.push([`t:${padded.slice(i, i + 3)}`, 0.5]);
+        }
+    }
+
+    // Joined neighbours, so "real time" also matches "realtime"
+    for (let i = 0; i + 1 < words.length; i++) {
+        result.push([`w:${words[i]}${words[i + 1]}`, 0.5]);
+    }
+
+    return result;
+}
+
+/**
+  * Embed one text into a unit vector (all zeros for a text without features)
+  */
+export function hashEmbed(text: string, dimensions: number = DEFAULT_DIMENSIONS): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+
+    for (const [feature, weight] of features(text)) {
+        const hash = fnv1a(feature);
+        // The top bit picks the sign so unrelated features cancel out instead of piling up
+        vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+export class HashEmbeddingModel implements EmbeddingModelV2 {
+    readonly specificationVersion = 'v2' as const;
+    readonly provider = 'local';
+    readonly modelId: string;
+    readonly maxEmbeddingsPerCall = Infinity;
+    readonly supportsParallelCalls = true;
+    readonly dimensions: number;
+
+    constructor(modelId: string) {
+        const match = /^hash-(\d+)$/.exec(modelId);
+        if (!match || Number(match[1]) < 16 || Number(match[1]) > 4096) {
+            throw new NoSuchModelError({ modelId, modelType: 'textEmbeddingModel' });
+        }
+
+        this.modelId = modelId;
+        this.dimensions = Number(match[1]);
+    }
+
+    async doEmbed({ values }: { values: string[] }) {
+        return {
+            embeddings: values.map(value => hashEmbed(value, this.dimensions)),
+            usage: { tokens: 0 },
+        };
+    }
+}
+
+export const localProvider = {
+    languageModel: (modelId: string): never => {
+        throw new NoSuchModelError({ modelId, modelType: 'languageModel' });
+    },
+    textEmbeddingModel: (modelId: string) => new HashEmbeddingModel(modelId),
+    imageModel: (modelId: string): never => {
+        throw new NoSuchModelError({ modelId, modelType: 'imageModel' });
+    },
+};
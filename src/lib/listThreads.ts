@@ -0,0 +1,82 @@
+/**
+  * Thread Listing Utility
+  *
+  * Provides a paged, sorted list of a user's threads
+  * Used by the threads API and the chat sidebar
+  */
+
+import { db } from '../db/initialize';
+import { asc, count, desc, eq } from 'drizzle-orm';
+import { threadsTable } from '../db/schema';
+
+export interface ThreadSummary {
+    id: string;
+    title: string;
+    // Whether the thread has a share link
+    isPublic: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ThreadList {
+    threads: ThreadSummary[];
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+}
+
+export interface ListThreadsOptions {
+    page?: number;
+    pageSize?: number;
+    sort?: 'updatedAt' | 'createdAt';
+    order?: 'asc' | 'desc';
+}
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+  * List the threads owned by a user
+  *
+  * @param userEmail - The owner's email
+  * @param options - Paging (1-based page) and sorting (defaults to most recently updated first)
+  * @returns The requested page of thread summaries plus paging totals
+  */
+export async function listThreads(
+    userEmail: string,
+    { page = 1, pageSize = 20, sort = 'updatedAt', order = 'desc' }: ListThreadsOptions = {}
+): Promise<ThreadList> {
+    const safePageSize = Math.min(Math.max(1, Math.floor(pageSize) || 20), MAX_PAGE_SIZE);
+    const safePage = Math.max(1, Math.floor(page) || 1);
+
+    const sortColumn = sort === 'createdAt' ? threadsTable.createdAt : threadsTable.updatedAt;
+
+    const [{ total }] = await db
+        .select({ total: count() })
+        .from(threadsTable)
+        .where(eq(threadsTable.email, userEmail));
+
+    const threads = await db
+        .select({
+            id: threadsTable.id,
+            title: threadsTable.title,
+            isPublic: threadsTable.isPublic,
+            shareToken: threadsTable.shareToken,
+            createdAt: threadsTable.createdAt,
+            updatedAt: threadsTable.updatedAt,
+        })
+        .from(threadsTable)
+        .where(eq(threadsTable.email, userEmail))
+        .orderBy(order === 'asc' ? asc(sortColumn) : desc(sortColumn))
+        .limit(safePageSize)
+        .offset((safePage - 1) * safePageSize);
+
+    return {
+        // Threads made public before share links existed have no token until shared again
+        threads: threads.map(({ shareToken, ...thread }) => ({ ...thread, isPublic: thread.isPublic && shareToken !== null })),
+        page: safePage,
+        pageSize: safePageSize,
+        total,
+        totalPages: Math.ceil(total / safePageSize),
+    };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { isSafeUrl, renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+    it('renders markdown with line breaks and tables', () => {
+        expect(renderMarkdown('**Stack**\nNext.js')).toBe('<p><strong>Stack</strong><br>Next.js</p>\n');
+        expect(renderMarkdown('| A |\n| - |\n| b |')).toContain('<td>b</td>');
+    });
+
+    it('shows raw HTML as text', () => {
+        expect(renderMarkdown('Hi <img src=x onerror=alert(1)>')).toBe('<p>Hi &lt;img src=x onerror=alert(1)&gt;</p>\n');
+        expect(renderMarkdown('<script>alert(1)</script>')).not.toContain('<script');
+        expect(renderMarkdown('<div onclick="alert(1)">x</div>')).not.toContain('<div');
+    });
+
+    it('drops links and images with script-capable URLs', () => {
+        expect(renderMarkdown('[docs](javascript:alert(1))')).toBe('<p>docs</p>\n');
+        expect(renderMarkdown('[docs](JaVaScRiPt:alert(1))')).toBe('<p>docs</p>\n');
+        expect(renderMarkdown('![logo](data:text/html,<script>alert(1)</script>)')).not.toContain('<img');
+        expect(renderMarkdown('[docs](https://supabase.com/docs)')).toBe('<p><a href="https://supabase.com/docs">docs</a></p>\n');
+    });
+
+    it('keeps code blocks escaped', () => {
+        expect(renderMarkdown('```html\n<b>x</b>\n```')).toContain('&lt;b&gt;x&lt;/b&gt;');
+    });
+});
+
+describe('isSafeUrl', () => {
+    it('allows web, mail and relative URLs only', () => {
+        expect(['https://a.dev', 'http://a.dev', 'mailto:a@b.dev', '/share/x', '#top', 'docs/page', '?q=1'].every(isSafeUrl)).toBe(true);
+        expect(['javascript:alert(1)', ' javascript:x', 'data:text/html,x', 'vbscript:x'].some(isSafeUrl)).toBe(false);
+    });
+});
@@ -0,0 +1,53 @@
+/**
+  * Markdown Rendering
+  *
+  * Renders model answers (markdown) to HTML for the pages that insert it with
+  * set:html: the chat, the public share page and the HTML export.
+  * Answers are model output, which anyone can steer (by asking, or through a
+  * fetched documentation page), so raw HTML in them is shown as text and links
+  * or images with a script-capable URL (javascript:, data:, ...) are dropped.
+  * The chat script applies the same rules to the marked it loads in the browser.
+  */
+
+import { Marked, type Tokens } from 'marked';
+
+// URLs allowed in links and images: http(s), mailto, and relative URLs
+const SAFE_URL = /^(https?:|mailto:|[/#?.]|[^:/?#]*(?:[/?#]|$))/i;
+
+/**
+  * Escape text for HTML (text content and attribute values)
+  */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+  * Whether a link or image URL is safe to render
+  */
+export function isSafeUrl(url: string): boolean {
+    return SAFE_URL.test(url.trim());
+}
+
+const markdown = new Marked({
+    breaks: true,
+    gfm: true,
+    renderer: {
+        html({ text }: Tokens.HTML | Tokens.Tag) {
+            return escapeHtml(text);
+        },
+        link({ href, tokens }: Tokens.Link) {
+            // Unsafe links keep their text; false falls back to the default renderer
+            return isSafeUrl(href) ? false : this.parser.parseInline(tokens);
+        },
+        image({ href, text }: Tokens.Image) {
+            return isSafeUrl(href) ? false : escapeHtml(text);
+        },
+    },
+});
+
+/**
+  * Render markdown to HTML that is safe to insert into a page
+  */
+export function renderMarkdown(text: string): string {
+    return markdown.parse(text, { async: false });
+}
@@ -0,0 +1,116 @@
+/**
+  * Mock Language Model
+  *
+  * Offline stand-in for a real provider, selected with provider 'mock'.
+  * It follows MockLanguageModelV2 from 'ai/test' (which can only be imported
+  * inside a vitest run) and never makes network calls:
+  * - Text requests echo the latest user message
+  * - JSON requests (generateObject) return an empty object matching the schema
+  */
+
+import { NoSuchModelError, simulateReadableStream, type LanguageModel } from 'ai';
+
+import { getMessageText } from './threadMessages';
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2['doGenerate']>[0];
+type StreamPart = Awaited<ReturnType<LanguageModelV2['doStream']>>['stream'] extends ReadableStream<infer T> ? T : never;
+
+/**
+  * Build the smallest value that satisfies a JSON schema
+  */
+function emptyValueForSchema(schema: any): unknown {
+    if (!schema || typeof schema !== 'object') {
+        return null;
+    }
+
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+        return schema.enum[0];
+    }
+
+    const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+    switch (type) {
+        case 'object':
+            return Object.fromEntries(
+                Object.entries(schema.properties || {}).map(([key, value]) => [key, emptyValueForSchema(value)])
+            );
+        case 'array':
+            return [];
+        case 'string':
+            return '';
+        case 'number':
+        case 'integer':
+            return 0;
+        case 'boolean':
+            return false;
+        default:
+            return null;
+    }
+}
+
+class MockLanguageModel implements LanguageModelV2 {
+    readonly specificationVersion = 'v2';
+    readonly provider = 'mock';
+    readonly supportedUrls = {};
+
+    constructor(readonly modelId: string) {}
+
+    private respond(options: CallOptions) {
+        let text: string;
+
+        if (options.responseFormat?.type === 'json') {
+            text = JSON.stringify(emptyValueForSchema(options.responseFormat.schema));
+        } else {
+            const lastUserMessage = [...options.prompt].reverse().find(message => message.role === 'user');
+            text = `Mock response from ${this.modelId}: ${lastUserMessage ? getMessageText(lastUserMessage) : ''}`;
+        }
+
+        // Rough estimate (~4 characters per token) so usage and cost tracking have something to record
+        const inputTokens = Math.ceil(JSON.stringify(options.prompt).length / 4);
+        const outputTokens = Math.ceil(text.length / 4);
+
+        return {
+            text,
+            usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        };
+    }
+
+    async doGenerate(options: CallOptions) {
+        const { text, usage } = this.respond(options);
+
+        return {
+            content: [{ type: 'text' as const, text }],
+            finishReason: 'stop' as const,
+            usage,
+            warnings: [],
+        };
+    }
+
+    async doStream(options: CallOptions) {
+        const { text, usage } = this.respond(options);
+
+        const chunks: StreamPart[] = [
+            { type: 'stream-start', warnings: [] },
+            { type: 'text-start', id: '0' },
+            ...text.split(/(?<=\s)/).map(delta => ({ type: 'text-delta' as const, id: '0', delta })),
+            { type: 'text-end', id: '0' },
+            { type: 'finish', finishReason: 'stop', usage },
+        ];
+
+        return { stream: simulateReadableStream({ chunks }) };
+    }
+}
+
+/**
+  * Provider that returns a MockLanguageModel for any model id
+  */
+export const mockProvider = {
+    languageModel: (modelId: string) => new MockLanguageModel(modelId),
+    textEmbeddingModel: (modelId: string): never => {
+        throw new NoSuchModelError({ modelId, modelType: 'textEmbeddingModel' });
+    },
+    imageModel: (modelId: string): never => {
+        throw new NoSuchModelError({ modelId, modelType: 'imageModel' });
+    },
+};
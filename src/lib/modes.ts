@@ -0,0 +1,155 @@
+/**
+  * Mode Registry
+  *
+  * A mode shapes how the assistant approaches a thread: it adds its own
+  * section to the system prompt and limits the tools the model may call.
+  * The mode is picked per thread in the chat UI (or with `mode` in the
+  * /api/message/generate request body) and saved on the thread.
+  */
+
+import tools from './tools';
+import config from './config';
+import { buildSystemPrompt } from './prompt';
+import type { Category, Mode, Tool } from './types';
+
+/**
+  * Pick the named tools from the tool registry (all tools when no names are given)
+  */
+function pickTools(names?: string[]): Record<string, Tool> {
+    if (!names) {
+        return tools;
+    }
+
+    return Object.fromEntries(
+        Object.entries(tools).filter(([name]) => names.includes(name))
+    );
+}
+
+const stackCategory: Category = {
+    name: 'Tech Stack',
+    description: 'Tech stack recommendations for a product or application',
+    modes: {
+        general: {
+            name: 'General',
+            description: 'Balanced recommendations for any kind of project',
+            icon: 'fa-layer-group',
+            tools: pickTools(),
+            show: true,
+        },
+        'hackathon-mvp': {
+            name: 'Hackathon MVP',
+            description: 'Ship a working demo in a weekend',
+            icon: 'fa-bolt',
+            prompt: `## Mode: Hackathon MVP
+
+The user is building a demo for a hackathon, usually within 24-48 hours.
+- Favour tools the team can set up in minutes: managed services, generous free tiers, starter templates and SDKs with good quick starts
+- Prefer one platform covering several layers (e.g. auth + database + storage) over the best tool for each layer
+- Skip scaling, compliance and long-term maintenance concerns unless the user asks
+- End with a short, ordered setup checklist`,
+            tools: pickTools(['queryMegaList', 'queryCompanyInfo', 'semanticSearchCatalog', 'checkStackCompatibility', 'estimateStackCost', 'compareStacks', 'generateScaffold', 'getPageContent', 'search']),
+            show: true,
+        },
+        enterprise: {
+            name: 'Enterprise',
+            description: 'Production systems with compliance, scale and support needs',
+            icon: 'fa-building',
+            prompt: `## Mode: Enterprise
+
+The user is planning a production system for an established organisation.
+- Weigh security, compliance (SOC 2, GDPR, HIPAA where relevant), SSO, audit logging and data residency
+- Prefer mature services with SLAs, enterprise support and a clear vendor track record
+- Cover high availability, backups, observability and how each layer scales
+- Call out lock-in and the migration path away from each vendor`,
+            tools: pickTools(['queryMegaList', 'queryCompanyInfo', 'semanticSearchCatalog', 'checkStackCompatibility', 'estimateStackCost', 'compareStacks', 'generateScaffold', 'getPageContent', 'search', 'calculate', 'runJSCode']),
+            show: true,
+        },
+        'mobile-first': {
+            name: 'Mobile-first',
+            description: 'Native or cross-platform mobile apps',
+            icon: 'fa-mobile-screen',
+            prompt: `## Mode: Mobile-first
+
+The user is building an app whose primary clients are iOS and/or Android devices.
+- Start from the mobile framework (native or cross-platform) and pick the backend around it
+- Cover offline support and sync, push notifications, deep links and app store release/update flows
+- Prefer backends with first-class mobile SDKs
+- Mention device testing and crash reporting`,
+            tools: pickTools(['queryMegaList', 'queryCompanyInfo', 'semanticSearchCatalog', 'checkStackCompatibility', 'estimateStackCost', 'compareStacks', 'generateScaffold', 'getPageContent', 'search']),
+            show: true,
+        },
+        budget: {
+            name: 'Budget / Free-tier only',
+            description: 'Only services that can be run for free',
+            icon: 'fa-piggy-bank',
+            prompt: `## Mode: Budget / Free-tier only
+
+The user cannot spend money on infrastructure.
+- Only recommend open-source tools or services with a permanent free tier
+- State each free tier's limits and what happens when they are exceeded
+- Check the free-tier limits with estimateStackCost, estimate the monthly cost as $0 and point out the first paid upgrade the project would hit`,
+            // No web search: stick to the catalog and documentation
+            tools: pickTools(['queryMegaList', 'queryCompanyInfo', 'semanticSearchCatalog', 'checkStackCompatibility', 'estimateStackCost', 'compareStacks', 'generateScaffold', 'getPageContent', 'calculate', 'runJSCode']),
+            show: true,
+        },
+        comparison: {
+            name: 'Comparison',
+            description: 'Weigh two or three alternatives side by side',
+            icon: 'fa-scale-balanced',
+            prompt: `## Mode: Comparison
+
+The user is choosing between alternatives (products or whole stacks) rather than asking for a full stack.
+- Narrow the choice down to two or three options from the catalog, then compare them with compareStacks, passing the rest of their stack as context
+- The comparison table is shown to the user; do not repeat it. Explain the trade-offs that matter for their project and recommend one option
+- Tell the user they can keep an option in their stack with the Keep button under the table`,
+            tools: pickTools(['queryMegaList', 'queryCompanyInfo', 'semanticSearchCatalog', 'checkStackCompatibility', 'estimateStackCost', 'compareStacks', 'getPageContent', 'search']),
+            show: true,
+        },
+    },
+};
+
+const modes: Record<string, Mode> = stackCategory.modes;
+
+/**
+  * Get a mode by key
+  *
+  * @returns The mode, or null if it is unknown
+  */
+export function getMode(key: string): Mode | null {
+    return modes[key] || null;
+}
+
+/**
+  * List the modes shown in the chat UI
+  */
+export function listModes(): Array<{ key: string; name: string; description: string; icon?: string }> {
+    return Object.entries(modes)
+        .filter(([, mode]) => mode.show !== false)
+        .map(([key, { name, description, icon }]) => ({ key, name, description, icon }));
+}
+
+/**
+  * Work out which mode to use for a request: the request's choice, then the thread's, then config.defaultMode
+  *
+  * @returns The mode key, or null if the requested mode is unknown
+  */
+export function resolveModeKey(requested: unknown, saved?: string | null): string | null {
+    if (typeof requested === 'string' && requested.trim() !== '') {
+        return getMode(requested.trim()) ? requested.trim() : null;
+    }
+
+    if (saved && getMode(saved)) {
+        return saved;
+    }
+
+    return config.defaultMode;
+}
+
+/**
+  * Get the system prompt for a mode (the base prompt listing the mode's tools, plus the mode's section)
+  */
+export function getModeSystemPrompt(mode: Mode): string {
+    return buildSystemPrompt(mode.tools, mode.prompt);
+}
+
+export { stackCategory, modes };
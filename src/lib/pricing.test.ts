@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { estimateUsage, priceServices, priceTier, type PricingTier, type StackUsage } from './pricing';
+
+const tier = (productId: string, name: string, monthlyPrice: number, rates: PricingTier['rates']): PricingTier =>
+    ({ productId, product: productId, name, monthlyPrice, rates, notes: '', sourceUrl: '' });
+
+const usage: StackUsage = { mau: 20_000, storage_gb: 12, requests: 3_000_000, bandwidth_gb: 300, compute_hours: 730 };
+
+// Sample plans (not real prices) - Free: 50k MAU and 0.5 GB as hard limits; Pro: $25 with 100k MAU and 8 GB included, then $0.125/GB
+const supabaseTiers = [
+    tier('supabase', 'Free', 0, [
+        { dimension: 'mau', included: 50_000, unitPrice: null, per: 1 },
+        { dimension: 'storage_gb', included: 0.5, unitPrice: null, per: 1 },
+    ]),
+    tier('supabase', 'Pro', 25, [
+        { dimension: 'mau', included: 100_000, unitPrice: 0.00325, per: 1 },
+        { dimension: 'storage_gb', included: 8, unitPrice: 0.125, per: 1 },
+    ]),
+];
+
+describe('estimateUsage', () => {
+    it('derives missing usage from the MAU and lists the assumptions', () => {
+        const { usage: estimated, assumptions } = estimateUsage({ mau: 2000, storage_gb: 5 });
+
+        expect(estimated).toEqual({ mau: 2000, requests: 3_000_000, bandwidth_gb: 200, storage_gb: 5, compute_hours: 730 });
+        expect(assumptions).toEqual([
+            '3,000,000 requests (derived from MAU)',
+            '200 GB transferred (derived from MAU)',
+            '730 compute hours (one always-on instance)',
+        ]);
+    });
+
+    it('assumes 1,000 MAU when none is given', () => {
+        expect(estimateUsage({}).usage.mau).toBe(1000);
+        expect(estimateUsage({}).assumptions[0]).toBe('1,000 monthly active users');
+    });
+});
+
+describe('priceTier', () => {
+    it('bills usage beyond the included amount per unit', () => {
+        expect(priceTier(supabaseTiers[1], usage)).toEqual({
+            monthlyCost: 25.5,
+            lines: [
+                { dimension: 'mau', usage: 20_000, included: 100_000, billable: 0, cost: 0 },
+                { dimension: 'storage_gb', usage: 12, included: 8, billable: 4, cost: 0.5 },
+            ],
+        });
+    });
+
+    it('prices per block of units', () => {
+        const perMillion = tier('vercel', 'Pro', 20, [{ dimension: 'requests', included: 1_000_000, unitPrice: 0.6, per: 1_000_000 }]);
+
+        expect(priceTier(perMillion, usage)?.monthlyCost).toBe(21.2);
+    });
+
+    it('rules a tier out once usage exceeds a hard limit', () => {
+        expect(priceTier(supabaseTiers[0], usage)).toBe(null);
+        expect(priceTier(supabaseTiers[0], { ...usage, storage_gb: 0.5 })?.monthlyCost).toBe(0);
+    });
+});
+
+describe('priceServices', () => {
+    it('bills each product on its cheapest eligible tier', () => {
+        const { services } = priceServices(new Map([['Supabase', { id: 'supabase', name: 'Supabase' }]]), supabaseTiers, { ...usage, storage_gb: 0.2 });
+
+        expect(services).toMatchObject([{ name: 'Supabase', tier: 'Free', freeTier: true, monthlyCost: 0 }]);
+        expect(priceServices(new Map([['Supabase', { id: 'supabase', name: 'Supabase' }]]), supabaseTiers, usage).services)
+            .toMatchObject([{ tier: 'Pro', freeTier: false, monthlyCost: 25.5 }]);
+    });
+
+    it('bills names that match the same product once', () => {
+        const found = new Map([
+            ['Supabase', { id: 'supabase', name: 'Supabase' }],
+            ['supabase', { id: 'supabase', name: 'Supabase' }],
+        ]);
+
+        expect(priceServices(found, supabaseTiers, usage).services.map(service => service.name)).toEqual(['Supabase']);
+    });
+
+    it('lists products without tiers, or beyond every tier, as unpriced', () => {
+        const found = new Map([
+            ['Neon', { id: 'neon', name: 'Neon' }],
+            ['Supabase', { id: 'supabase', name: 'Supabase' }],
+        ]);
+
+        const { services, unpriced } = priceServices(found, [supabaseTiers[0]], usage);
+
+        expect(services).toEqual([]);
+        expect(unpriced).toEqual([
+            { name: 'Neon', reason: 'No pricing data in the catalog' },
+            { name: 'Supabase', reason: 'Usage exceeds the limits of every listed tier (Free); likely a custom/enterprise plan' },
+        ]);
+    });
+});
@@ -0,0 +1,321 @@
+/**
+  * Pricing
+  *
+  * Pricing tiers per product (pricing_tiers), curated by admins at /admin/pricing,
+  * and the monthly cost estimate behind the estimateStackCost tool:
+  * - A tier costs its flat monthly price plus, per metered rate, the usage beyond
+  *   what is included times the unit price
+  * - A rate without a unit price is a hard limit, so the tier is only eligible while
+  *   usage stays within it (free tiers)
+  * - Each service is billed on its cheapest eligible tier
+  *
+  * No tiers are seeded: the table starts empty and every service is reported as
+  * unpriced until admins add its plans.
+  */
+
+import { z } from 'zod';
+import { and, eq, inArray } from 'drizzle-orm';
+
+import { db } from '../db/initialize';
+import { pricingTiersTable, productsTable } from '../db/schema';
+import { isHttpUrl } from './catalogVocabulary';
+import { findProducts } from './products';
+import type { BillingDimension, PricingRate } from './types';
+
+export const billingDimensions: BillingDimension[] = ['mau', 'storage_gb', 'requests', 'bandwidth_gb', 'compute_hours'];
+
+export const billingDimensionLabels: Record<BillingDimension, string> = {
+    mau: 'monthly active users',
+    storage_gb: 'GB stored',
+    requests: 'requests',
+    bandwidth_gb: 'GB transferred',
+    compute_hours: 'compute hours',
+};
+
+export interface PricingTier {
+    productId: string;
+    product: string;
+    name: string;
+    monthlyPrice: number;
+    rates: PricingRate[];
+    notes: string;
+    sourceUrl: string;
+}
+
+export type PricingTierResult =
+    | { success: true; tier: PricingTier }
+    | { success: false; code: 'invalid' | 'not_found'; errors: string[] };
+
+export type StackUsage = Record<BillingDimension, number>;
+
+export interface ServiceCost {
+    // Name as requested, and the product it matched
+    name: string;
+    product: string;
+    tier: string;
+    freeTier: boolean;
+    monthlyCost: number;
+    lines: Array<{ dimension: BillingDimension; usage: number; included: number; billable: number; cost: number }>;
+    notes: string;
+    sourceUrl: string;
+}
+
+export interface StackCostEstimate {
+    usage: StackUsage;
+    // Usage figures that were derived rather than given
+    assumptions: string[];
+    services: ServiceCost[];
+    // Products without pricing data, or whose usage exceeds every listed tier
+    unpriced: Array<{ name: string; reason: string }>;
+    // Names that matched no catalog product
+    unknown: string[];
+    totalMonthlyCost: number;
+}
+
+const rateSchema = z.object({
+    dimension: z.enum(billingDimensions as [BillingDimension, ...BillingDimension[]], {
+        errorMap: () => ({ message: `must be one of: ${billingDimensions.join(', ')}` }),
+    }),
+    included: z.number().min(0).default(0),
+    unitPrice: z.number().min(0).nullable().default(null),
+    per: z.number().positive().default(1),
+});
+
+const tierSchema = z.object({
+    productId: z.string().trim().min(1, 'is required'),
+    name: z.string().trim().min(1, 'is required').max(100),
+    monthlyPrice: z.coerce.number().min(0).default(0),
+    rates: z.array(rateSchema).max(billingDimensions.length).default([])
+        .refine(rates => new Set(rates.map(rate => rate.dimension)).size === rates.length, 'must not repeat a dimension'),
+    notes: z.string().trim().max(2000).default(''),
+    sourceUrl: z.union([
+        z.string().trim().refine(isHttpUrl, 'must be a plain http(s) URL'),
+        z.literal(''),
+    ]).default(''),
+});
+
+/**
+  * Round to cents
+  */
+function dollars(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+  * Load tiers with their product names
+  */
+async function selectTiers(productIds?: string[]): Promise<PricingTier[]> {
+    const rows = await db
+        .select({
+            productId: pricingTiersTable.productId,
+            product: productsTable.name,
+            name: pricingTiersTable.name,
+            monthlyPrice: pricingTiersTable.monthlyPrice,
+            rates: pricingTiersTable.rates,
+            notes: pricingTiersTable.notes,
+            sourceUrl: pricingTiersTable.sourceUrl,
+        })
+        .from(pricingTiersTable)
+        .innerJoin(productsTable, eq(productsTable.id, pricingTiersTable.productId))
+        .where(productIds ? inArray(pricingTiersTable.productId, productIds) : undefined)
+        .orderBy(productsTable.name, pricingTiersTable.monthlyPrice);
+
+    return rows.map(row => ({ ...row, monthlyPrice: Number(row.monthlyPrice) }));
+}
+
+/**
+  * List pricing tiers, optionally of one product
+  *
+  * @param options - product: product id
+  */
+export async function listPricingTiers({ product }: { product?: string } = {}): Promise<PricingTier[]> {
+    return selectTiers(product ? [product] : undefined);
+}
+
+/**
+  * Validate and save a pricing tier (replaces the product's tier of the same name)
+  */
+export async function savePricingTier(raw: unknown): Promise<PricingTierResult> {
+    const parsed = tierSchema.safeParse(raw);
+    if (!parsed.success) {
+        return {
+            success: false,
+            code: 'invalid',
+            errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'tier'} ${issue.message}`),
+        };
+    }
+
+    const { productId, name, monthlyPrice, ...values } = parsed.data;
+
+    const [product] = await db.select({ name: productsTable.name }).from(productsTable).where(eq(productsTable.id, productId));
+    if (!product) {
+        return { success: false, code: 'not_found', errors: [`No product with id "${productId}"`] };
+    }
+
+    await db
+        .insert(pricingTiersTable)
+        .values({ productId, name, monthlyPrice: String(monthlyPrice), ...values })
+        .onConflictDoUpdate({
+            target: [pricingTiersTable.productId, pricingTiersTable.name],
+            set: { monthlyPrice: String(monthlyPrice), ...values, updatedAt: new Date() },
+        });
+
+    return { success: true, tier: { productId, product: product.name, name, monthlyPrice, ...values } };
+}
+
+/**
+  * Delete a pricing tier
+  *
+  * @returns Whether a tier was deleted
+  */
+export async function deletePricingTier(productId: string, name: string): Promise<boolean> {
+    const deleted = await db
+        .delete(pricingTiersTable)
+        .where(and(eq(pricingTiersTable.productId, productId), eq(pricingTiersTable.name, name)))
+        .returning({ name: pricingTiersTable.name });
+
+    return deleted.length > 0;
+}
+
+/**
+  * Fill in the usage that was not given, mostly from the monthly active users
+  *
+  * Rough defaults for a typical web app: 50 requests per user per day, 100 MB
+  * transferred and 10 MB stored per user, and one always-on instance (730 hours).
+  *
+  * @returns Usage for every dimension, and the assumptions made
+  */
+export function estimateUsage(given: Partial<StackUsage>): { usage: StackUsage; assumptions: string[] } {
+    const mau = given.mau ?? 1000;
+    const derived: StackUsage = {
+        mau,
+        requests: mau * 50 * 30,
+        bandwidth_gb: mau * 0.1,
+        storage_gb: mau * 0.01,
+        compute_hours: 730,
+    };
+
+    const usage = { ...derived };
+    const assumptions: string[] = [];
+
+    for (const dimension of billingDimensions) {
+        const value = given[dimension];
+        if (value === undefined) {
+            const basis = dimension === 'mau' ? '' : dimension === 'compute_hours' ? ' (one always-on instance)' : ' (derived from MAU)';
+            assumptions.push(`${derived[dimension].toLocaleString('en-US')} ${billingDimensionLabels[dimension]}${basis}`);
+        } else {
+            usage[dimension] = value;
+        }
+    }
+
+    return { usage, assumptions };
+}
+
+/**
+  * Cost of one tier for the usage
+  *
+  * @returns The cost breakdown, or null if the usage exceeds one of the tier's hard limits
+  */
+export function priceTier(tier: PricingTier, usage: StackUsage): Pick<ServiceCost, 'monthlyCost' | 'lines'> | null {
+    const lines: ServiceCost['lines'] = [];
+
+    for (const { dimension, included, unitPrice, per } of tier.rates) {
+        const billable = Math.max(0, usage[dimension] - included);
+
+        if (billable > 0 && unitPrice === null) {
+            return null;
+        }
+
+        lines.push({
+            dimension,
+            usage: usage[dimension],
+            included,
+            billable,
+            cost: dollars(billable / per * (unitPrice ?? 0)),
+        });
+    }
+
+    return {
+        monthlyCost: dollars(tier.monthlyPrice + lines.reduce((sum, line) => sum + line.cost, 0)),
+        lines,
+    };
+}
+
+/**
+  * Price each product on its cheapest eligible tier
+  *
+  * Names that matched the same product (e.g. "Supabase" and "supabase") are billed once, under the first name.
+  *
+  * @param found - Requested names and the products they matched
+  * @param tiers - Pricing tiers of those products
+  */
+export function priceServices(
+    found: Map<string, { id: string; name: string }>,
+    tiers: PricingTier[],
+    usage: StackUsage
+): Pick<StackCostEstimate, 'services' | 'unpriced'> {
+    const services: ServiceCost[] = [];
+    const unpriced: StackCostEstimate['unpriced'] = [];
+    const billed = new Set<string>();
+
+    for (const [name, product] of found) {
+        if (billed.has(product.id)) {
+            continue;
+        }
+        billed.add(product.id);
+
+        const productTiers = tiers.filter(tier => tier.productId === product.id);
+
+        if (productTiers.length === 0) {
+            unpriced.push({ name, reason: 'No pricing data in the catalog' });
+            continue;
+        }
+
+        const priced = productTiers
+            .map(tier => ({ tier, cost: priceTier(tier, usage) }))
+            .filter((option): option is { tier: PricingTier; cost: NonNullable<ReturnType<typeof priceTier>> } => option.cost !== null)
+            .sort((a, b) => a.cost.monthlyCost - b.cost.monthlyCost);
+
+        if (priced.length === 0) {
+            unpriced.push({ name, reason: `Usage exceeds the limits of every listed tier (${productTiers.map(tier => tier.name).join(', ')}); likely a custom/enterprise plan` });
+            continue;
+        }
+
+        const [{ tier, cost }] = priced;
+        services.push({
+            name,
+            product: product.name,
+            tier: tier.name,
+            freeTier: cost.monthlyCost === 0,
+            ...cost,
+            notes: tier.notes,
+            sourceUrl: tier.sourceUrl,
+        });
+    }
+
+    return { services, unpriced };
+}
+
+/**
+  * Estimate the monthly cost of a stack
+  *
+  * @param names - Product names in the stack, as the model wrote them
+  * @param given - Usage assumptions; missing ones are derived from the MAU (see estimateUsage)
+  */
+export async function estimateStackCost(names: string[], given: Partial<StackUsage> = {}): Promise<StackCostEstimate> {
+    const { usage, assumptions } = estimateUsage(given);
+    const uniqueNames = [...new Set(names.map(name => name.trim()).filter(Boolean))];
+    const found = await findProducts(uniqueNames);
+
+    const tiers = found.size === 0 ? [] : await selectTiers([...new Set([...found.values()].map(product => product.id))]);
+    const { services, unpriced } = priceServices(found, tiers, usage);
+
+    return {
+        usage,
+        assumptions,
+        services,
+        unpriced,
+        unknown: uniqueNames.filter(name => !found.has(name)),
+        totalMonthlyCost: dollars(services.reduce((sum, service) => sum + service.monthlyCost, 0)),
+    };
+}
@@ -0,0 +1,261 @@
+/**
+  * Product Relations
+  *
+  * The compatibility graph between products (product_relations), curated by admins
+  * at /admin/relations and checked by the checkStackCompatibility tool:
+  * - integrates_with: known to work well together (e.g. an official adapter)
+  * - alternative_to: covers the same need, so a stack rarely needs both
+  * - requires: the first product needs the second one (or an alternative to it)
+  * - conflicts_with: known not to work together
+  * Every kind but 'requires' applies both ways and is stored once, smaller id first.
+  */
+
+import { z } from 'zod';
+import { and, eq, inArray, or, sql, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+import { db } from '../db/initialize';
+import { productRelationsTable, productsTable } from '../db/schema';
+import { findProducts } from './products';
+import type { RelationKind } from './types';
+
+export const relationKinds: RelationKind[] = ['integrates_with', 'alternative_to', 'requires', 'conflicts_with'];
+
+export const relationKindLabels: Record<RelationKind, string> = {
+    integrates_with: 'integrates with',
+    alternative_to: 'alternative to',
+    requires: 'requires',
+    conflicts_with: 'conflicts with',
+};
+
+export interface ProductRelation {
+    from: { id: string; name: string };
+    to: { id: string; name: string };
+    kind: RelationKind;
+    notes: string;
+}
+
+export type RelationResult =
+    | { success: true; relation: ProductRelation }
+    | { success: false; code: 'invalid' | 'not_found'; errors: string[] };
+
+export interface StackCompatibility {
+    // True when nothing conflicts and every requirement is met
+    compatible: boolean;
+    // Requested names with the product they matched
+    products: Array<{ name: string; id: string; product: string }>;
+    // Requested names that matched no product (the graph knows nothing about them)
+    unknown: string[];
+    conflicts: ProductRelation[];
+    // 'requires' edges whose target (and its alternatives) is not in the stack
+    missingRequirements: ProductRelation[];
+    // Pairs in the stack that cover the same need
+    overlaps: ProductRelation[];
+    integrations: ProductRelation[];
+}
+
+const relationSchema = z.object({
+    fromProductId: z.string().trim().min(1, 'is required'),
+    toProductId: z.string().trim().min(1, 'is required'),
+    kind: z.enum(relationKinds as [RelationKind, ...RelationKind[]], {
+        errorMap: () => ({ message: `must be one of: ${relationKinds.join(', ')}` }),
+    }),
+    notes: z.string().trim().max(2000).default(''),
+});
+
+export type RelationInput = z.infer<typeof relationSchema>;
+
+/**
+  * Storage order of an edge: 'requires' keeps its direction, the other kinds put the smaller id first
+  */
+function edgeKey({ fromProductId, toProductId, kind }: { fromProductId: string; toProductId: string; kind: RelationKind }) {
+    return kind !== 'requires' && toProductId < fromProductId
+        ? { fromProductId: toProductId, toProductId: fromProductId, kind }
+        : { fromProductId, toProductId, kind };
+}
+
+/**
+  * Load relations with the names of both products
+  *
+  * @param where - Filter on product_relations (all relations without one)
+  */
+async function selectRelations(where?: SQL): Promise<ProductRelation[]> {
+    const fromProducts = alias(productsTable, 'from_product');
+    const toProducts = alias(productsTable, 'to_product');
+
+    const rows = await db
+        .select({
+            fromId: fromProducts.id,
+            fromName: fromProducts.name,
+            toId: toProducts.id,
+            toName: toProducts.name,
+            kind: productRelationsTable.kind,
+            notes: productRelationsTable.notes,
+        })
+        .from(productRelationsTable)
+        .innerJoin(fromProducts, eq(fromProducts.id, productRelationsTable.fromProductId))
+        .innerJoin(toProducts, eq(toProducts.id, productRelationsTable.toProductId))
+        .where(where)
+        .orderBy(fromProducts.name, productRelationsTable.kind, toProducts.name);
+
+    return rows.map(row => ({
+        from: { id: row.fromId, name: row.fromName },
+        to: { id: row.toId, name: row.toName },
+        kind: row.kind,
+        notes: row.notes,
+    }));
+}
+
+/**
+  * List relations, optionally only those touching one product
+  *
+  * @param options - product: product id
+  */
+export async function listProductRelations({ product }: { product?: string } = {}): Promise<ProductRelation[]> {
+    return selectRelations(product
+        ? or(eq(productRelationsTable.fromProductId, product), eq(productRelationsTable.toProductId, product))
+        : undefined);
+}
+
+/**
+  * Validate and save a relation; saving an existing edge again replaces its notes
+  */
+export async function saveProductRelation(raw: unknown): Promise<RelationResult> {
+    const parsed = relationSchema.safeParse(raw);
+    if (!parsed.success) {
+        return {
+            success: false,
+            code: 'invalid',
+            errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'relation'} ${issue.message}`),
+        };
+    }
+
+    const { notes, ...edge } = parsed.data;
+
+    if (edge.fromProductId === edge.toProductId) {
+        return { success: false, code: 'invalid', errors: ['A product cannot be related to itself'] };
+    }
+
+    const products = await db
+        .select({ id: productsTable.id })
+        .from(productsTable)
+        .where(inArray(productsTable.id, [edge.fromProductId, edge.toProductId]));
+
+    const missing = [edge.fromProductId, edge.toProductId].filter(id => !products.some(product => product.id === id));
+    if (missing.length > 0) {
+        return { success: false, code: 'not_found', errors: missing.map(id => `No product with id "${id}"`) };
+    }
+
+    const key = edgeKey(edge);
+
+    await db
+        .insert(productRelationsTable)
+        .values({ ...key, notes })
+        .onConflictDoUpdate({
+            target: [productRelationsTable.fromProductId, productRelationsTable.toProductId, productRelationsTable.kind],
+            set: { notes, updatedAt: new Date() },
+        });
+
+    const [relation] = await selectRelations(and(
+        eq(productRelationsTable.fromProductId, key.fromProductId),
+        eq(productRelationsTable.toProductId, key.toProductId),
+        eq(productRelationsTable.kind, key.kind)
+    ));
+
+    return { success: true, relation };
+}
+
+/**
+  * Delete a relation (either product order works for the two-way kinds)
+  *
+  * @returns Whether a relation was deleted
+  */
+export async function deleteProductRelation(edge: { fromProductId: string; toProductId: string; kind: RelationKind }): Promise<boolean> {
+    const key = edgeKey(edge);
+
+    const deleted = await db
+        .delete(productRelationsTable)
+        .where(and(
+            eq(productRelationsTable.fromProductId, key.fromProductId),
+            eq(productRelationsTable.toProductId, key.toProductId),
+            eq(productRelationsTable.kind, key.kind)
+        ))
+        .returning({ kind: productRelationsTable.kind });
+
+    return deleted.length > 0;
+}
+
+/**
+  * Check a proposed stack against the relation graph
+  *
+  * A requirement counts as met when the required product, or an alternative to it,
+  * is in the stack (e.g. "Prisma requires PostgreSQL" is met by Neon if Neon is an
+  * alternative to PostgreSQL).
+  *
+  * @param names - Product names as the model wrote them
+  */
+export async function checkStackCompatibility(names: string[]): Promise<StackCompatibility> {
+    const uniqueNames = [...new Set(names.map(name => name.trim()).filter(Boolean))];
+    const found = await findProducts(uniqueNames);
+
+    const products = [...found].map(([name, product]) => ({ name, id: product.id, product: product.name }));
+    const unknown = uniqueNames.filter(name => !found.has(name));
+    const ids = [...new Set(products.map(product => product.id))];
+
+    const relations = ids.length === 0 ? [] : await selectRelations(or(
+        inArray(productRelationsTable.fromProductId, ids),
+        inArray(productRelationsTable.toProductId, ids)
+    ));
+
+    const inStack = new Set(ids);
+    const bothInStack = (relation: ProductRelation) => inStack.has(relation.from.id) && inStack.has(relation.to.id);
+
+    // Alternatives of every product that appears in a relation, to check requirements against
+    const alternatives = new Map<string, Set<string>>();
+    const requiredIds = relations.filter(relation => relation.kind === 'requires').map(relation => relation.to.id);
+
+    if (requiredIds.length > 0) {
+        const alternativeRelations = await selectRelations(and(
+            eq(productRelationsTable.kind, 'alternative_to'),
+            or(
+                inArray(productRelationsTable.fromProductId, requiredIds),
+                inArray(productRelationsTable.toProductId, requiredIds)
+            )
+        ));
+
+        for (const { from, to } of alternativeRelations) {
+            alternatives.set(from.id, (alternatives.get(from.id) ?? new Set()).add(to.id));
+            alternatives.set(to.id, (alternatives.get(to.id) ?? new Set()).add(from.id));
+        }
+    }
+
+    const conflicts = relations.filter(relation => relation.kind === 'conflicts_with' && bothInStack(relation));
+    const missingRequirements = relations.filter(relation =>
+        relation.kind === 'requires'
+        && inStack.has(relation.from.id)
+        && !inStack.has(relation.to.id)
+        && ![...alternatives.get(relation.to.id) ?? []].some(id => inStack.has(id))
+    );
+
+    return {
+        compatible: conflicts.length === 0 && missingRequirements.length === 0,
+        products,
+        unknown,
+        conflicts,
+        missingRequirements,
+        overlaps: relations.filter(relation => relation.kind === 'alternative_to' && bothInStack(relation)),
+        integrations: relations.filter(relation => relation.kind === 'integrates_with' && bothInStack(relation)),
+    };
+}
+
+/**
+  * Count relations per kind, e.g. for the admin page header
+  */
+export async function countProductRelations(): Promise<Record<RelationKind, number>> {
+    const rows = await db
+        .select({ kind: productRelationsTable.kind, count: sql<number>`count(*)::int` })
+        .from(productRelationsTable)
+        .groupBy(productRelationsTable.kind);
+
+    return Object.fromEntries(relationKinds.map(kind => [kind, rows.find(row => row.kind === kind)?.count ?? 0])) as Record<RelationKind, number>;
+}
@@ -0,0 +1,410 @@
+/**
+  * Relational Catalog
+  *
+  * Builds the normalized catalog (providers, categories, products, tags) from
+  * the company_info and mega_list tables:
+  * - Rows whose names only differ in spelling ("Neon" / "Neon (Postgres)") become one product
+  * - company_info.provider becomes the product's provider
+  * - The category is mega_list.type (and subtype as a child category), or company_info.subcategory
+  * - Tags such as free tier, open source and region are inferred from the description and
+  *   key feature; tags added by hand (source 'manual') are kept
+  *
+  * Syncing is idempotent: `npm run catalog:migrate` carries the whole catalog over and
+  * catalog.ts re-syncs the rows it writes. Product ids stay stable across syncs and renames.
+  */
+
+import { and, eq, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+import { db } from '../db/initialize';
+import {
+    categoriesTable,
+    companyInfoTable,
+    megaListTable,
+    productsTable,
+    productTagsTable,
+    providersTable,
+    tagsTable,
+} from '../db/schema';
+import { nameKey } from './catalogVocabulary';
+import type { CatalogReference, TagKind } from './types';
+
+type CompanyInfoRow = typeof companyInfoTable.$inferSelect;
+type MegaListRow = typeof megaListTable.$inferSelect;
+
+// Tags and the catalog text that implies them
+export const catalogTags: Array<{ id: string; name: string; kind: TagKind; pattern: RegExp }> = [
+    { id: 'free-tier', name: 'Free tier', kind: 'pricing', pattern: /\bfree[- ](tier|plan)\b|\bfree to (use|start)\b|\bfreemium\b/i },
+    { id: 'open-source', name: 'Open source', kind: 'license', pattern: /\b[Oo]pen[- ][Ss]ource\b|\bOSS\b/ },
+    { id: 'self-hosted', name: 'Self-hostable', kind: 'hosting', pattern: /\bself[- ]host(ed|able|ing)?\b|\bon[- ]prem(ise|ises)?\b/i },
+    { id: 'managed', name: 'Managed service', kind: 'hosting', pattern: /\b(fully[- ])?managed\b|\bserverless\b/i },
+    { id: 'region-global', name: 'Global / edge', kind: 'region', pattern: /\bglobal(ly)?\b|\bmulti[- ]region\b|\bedge\b/i },
+    { id: 'region-eu', name: 'EU region', kind: 'region', pattern: /\bEU\b|\bEurope(an)?\b|\bGDPR\b/ },
+    { id: 'region-us', name: 'US region', kind: 'region', pattern: /\bUS\b|\bUnited States\b|\bGovCloud\b/ },
+];
+
+const BATCH_SIZE = 500;
+
+interface DesiredProduct {
+    id: string;
+    name: string;
+    providerId: string | null;
+    categoryId: string | null;
+    companyInfoName: string | null;
+    megaListName: string | null;
+    tagIds: string[];
+}
+
+/**
+  * URL-safe id for a name ("Neon (Postgres)" -> "neon-postgres")
+  */
+export function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'item';
+}
+
+/**
+  * Tags implied by a product's catalog text
+  */
+export function inferTags(text: string): string[] {
+    return catalogTags.filter(tag => tag.pattern.test(text)).map(tag => tag.id);
+}
+
+/**
+  * Run inserts in batches (Postgres limits the parameters per statement)
+  */
+async function insertInBatches<T>(rows: T[], insert: (batch: T[]) => Promise<unknown>): Promise<void> {
+    for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+        await insert(rows.slice(start, start + BATCH_SIZE));
+    }
+}
+
+/**
+  * Pair company_info and mega_list rows that describe the same product
+  */
+function groupRows(companyInfo: CompanyInfoRow[], megaList: MegaListRow[]): Array<{ key: string; companyInfo?: CompanyInfoRow; megaList?: MegaListRow }> {
+    const groups: Array<{ key: string; companyInfo?: CompanyInfoRow; megaList?: MegaListRow }> = [];
+    const open = new Map<string, { key: string; companyInfo?: CompanyInfoRow; megaList?: MegaListRow }>();
+
+    for (const row of companyInfo) {
+        const key = nameKey(row.name) || row.name;
+        const group = { key, companyInfo: row };
+        groups.push(group);
+        // The first row of a spelling wins; later ones (duplicates within the table) stay separate products
+        if (!open.has(key)) open.set(key, group);
+    }
+
+    for (const row of megaList) {
+        const key = nameKey(row.name) || row.name;
+        const group = open.get(key);
+        if (group && !group.megaList) {
+            group.megaList = row;
+        } else {
+            groups.push({ key, megaList: row });
+        }
+    }
+
+    return groups;
+}
+
+/**
+  * Sync the relational catalog with company_info and mega_list
+  *
+  * @param options - names: only sync the products of these catalog row names (e.g. after an edit);
+  *   without names the whole catalog is synced
+  * @returns Number of products written and of products removed because their rows are gone
+  */
+export async function syncCatalogProducts({ names }: { names?: string[] } = {}): Promise<{ products: number; removed: number }> {
+    const [companyInfo, megaList, existing] = await Promise.all([
+        db.select().from(companyInfoTable),
+        db.select().from(megaListTable),
+        db.select({ id: productsTable.id, companyInfoName: productsTable.companyInfoName, megaListName: productsTable.megaListName }).from(productsTable),
+    ]);
+
+    const keys = names ? new Set(names.map(name => nameKey(name) || name)) : null;
+    const groups = groupRows(companyInfo, megaList).filter(group => !keys || keys.has(group.key));
+
+    const byCompanyInfo = new Map(existing.filter(product => product.companyInfoName).map(product => [product.companyInfoName!, product.id]));
+    const byMegaList = new Map(existing.filter(product => product.megaListName).map(product => [product.megaListName!, product.id]));
+    const usedIds = new Set(existing.map(product => product.id));
+
+    const providers = new Map<string, string>();
+    const categories = new Map<string, { id: string; name: string; parentId: string | null }>();
+    const products: DesiredProduct[] = [];
+
+    const addCategory = (name: string, parent?: { id: string }): { id: string } => {
+        const id = parent ? `${parent.id}/${slugify(name)}` : slugify(name);
+        if (!categories.has(id)) {
+            categories.set(id, { id, name, parentId: parent?.id ?? null });
+        }
+        return { id };
+    };
+
+    for (const { companyInfo: info, megaList: item } of groups) {
+        let providerId: string | null = null;
+        if (info?.provider.trim()) {
+            providerId = slugify(info.provider);
+            providers.set(providerId, info.provider.trim());
+        }
+
+        let categoryId: string | null = null;
+        if (item?.type.trim()) {
+            const type = addCategory(item.type.trim());
+            categoryId = item.subtype?.trim() ? addCategory(item.subtype.trim(), type).id : type.id;
+        } else if (info?.subcategory.trim()) {
+            categoryId = addCategory(info.subcategory.trim()).id;
+        }
+
+        const name = (info ?? item)!.name;
+        let id = (info && byCompanyInfo.get(info.name)) || (item && byMegaList.get(item.name)) || null;
+        if (!id) {
+            const base = slugify(name);
+            id = base;
+            for (let suffix = 2; usedIds.has(id); suffix++) {
+                id = `${base}-${suffix}`;
+            }
+            usedIds.add(id);
+        }
+
+        const text = [info?.description, info?.keyfeature, item?.subtype].filter(Boolean).join('\n');
+
+        products.push({
+            id,
+            name,
+            providerId,
+            categoryId,
+            companyInfoName: info?.name ?? null,
+            megaListName: item?.name ?? null,
+            tagIds: inferTags(text),
+        });
+    }
+
+    const productIds = products.map(product => product.id);
+    const companyInfoNames = products.flatMap(product => product.companyInfoName ? [product.companyInfoName] : []);
+    const megaListNames = products.flatMap(product => product.megaListName ? [product.megaListName] : []);
+
+    return await db.transaction(async (tx) => {
+        await tx
+            .insert(tagsTable)
+            .values(catalogTags.map(({ id, name, kind }) => ({ id, name, kind })))
+            .onConflictDoUpdate({ target: tagsTable.id, set: { name: sql`excluded.name`, kind: sql`excluded.kind` } });
+
+        await insertInBatches([...providers].map(([id, name]) => ({ id, name })), batch =>
+            tx.insert(providersTable).values(batch).onConflictDoNothing()
+        );
+
+        // Parents first, so subcategories can reference them
+        const sortedCategories = [...categories.values()].sort((a, b) => Number(!!a.parentId) - Number(!!b.parentId));
+        await insertInBatches(sortedCategories, batch =>
+            tx.insert(categoriesTable).values(batch).onConflictDoNothing()
+        );
+
+        // Release the rows' links first: a row may move to another product (e.g. after a rename)
+        for (let start = 0; start < companyInfoNames.length; start += BATCH_SIZE) {
+            await tx
+                .update(productsTable)
+                .set({ companyInfoName: null })
+                .where(inArray(productsTable.companyInfoName, companyInfoNames.slice(start, start + BATCH_SIZE)));
+        }
+        for (let start = 0; start < megaListNames.length; start += BATCH_SIZE) {
+            await tx
+                .update(productsTable)
+                .set({ megaListName: null })
+                .where(inArray(productsTable.megaListName, megaListNames.slice(start, start + BATCH_SIZE)));
+        }
+
+        await insertInBatches(products, batch =>
+            tx
+                .insert(productsTable)
+                .values(batch.map(({ tagIds, ...product }) => product))
+                .onConflictDoUpdate({
+                    target: productsTable.id,
+                    set: {
+                        name: sql`excluded.name`,
+                        providerId: sql`excluded.provider_id`,
+                        categoryId: sql`excluded.category_id`,
+                        companyInfoName: sql`excluded.company_info_name`,
+                        megaListName: sql`excluded.mega_list_name`,
+                        updatedAt: sql`now()`,
+                    },
+                })
+        );
+
+        for (let start = 0; start < productIds.length; start += BATCH_SIZE) {
+            await tx
+                .delete(productTagsTable)
+                .where(and(
+                    eq(productTagsTable.source, 'inferred'),
+                    inArray(productTagsTable.productId, productIds.slice(start, start + BATCH_SIZE))
+                ));
+        }
+
+        const productTags = products.flatMap(product => product.tagIds.map(tagId => ({ productId: product.id, tagId, source: 'inferred' as const })));
+        await insertInBatches(productTags, batch =>
+            tx.insert(productTagsTable).values(batch).onConflictDoNothing()
+        );
+
+        // Products whose catalog rows were all deleted
+        const removed = await tx
+            .delete(productsTable)
+            .where(and(isNull(productsTable.companyInfoName), isNull(productsTable.megaListName)))
+            .returning({ id: productsTable.id });
+
+        return { products: products.length, removed: removed.length };
+    });
+}
+
+export interface ProductDetails {
+    id: string;
+    name: string;
+    provider: string | null;
+    // "Type › Subtype" or the subcategory
+    category: string | null;
+    tags: string[];
+    // From the linked mega_list row
+    type: string | null;
+    subtype: string | null;
+    // From the linked company_info row
+    description: string | null;
+    keyFeature: string | null;
+    documentationUrl: string | null;
+}
+
+/**
+  * Select products with their provider, category, tags and catalog rows
+  */
+async function selectProductDetails(where: SQL) {
+    const parentCategoriesTable = alias(categoriesTable, 'parent_category');
+
+    const rows = await db
+        .select({
+            id: productsTable.id,
+            name: productsTable.name,
+            companyInfoName: productsTable.companyInfoName,
+            megaListName: productsTable.megaListName,
+            provider: providersTable.name,
+            category: categoriesTable.name,
+            parentCategory: parentCategoriesTable.name,
+            tags: sql<string[]>`coalesce((
+                select json_agg(${tagsTable.name} order by ${tagsTable.name})
+                from ${productTagsTable} join ${tagsTable} on ${tagsTable.id} = ${productTagsTable.tagId}
+                where ${productTagsTable.productId} = ${productsTable.id}
+            ), '[]'::json)`,
+            type: megaListTable.type,
+            subtype: megaListTable.subtype,
+            description: companyInfoTable.description,
+            keyFeature: companyInfoTable.keyfeature,
+            documentationUrl: companyInfoTable.documentation,
+        })
+        .from(productsTable)
+        .leftJoin(providersTable, eq(providersTable.id, productsTable.providerId))
+        .leftJoin(categoriesTable, eq(categoriesTable.id, productsTable.categoryId))
+        .leftJoin(parentCategoriesTable, eq(parentCategoriesTable.id, categoriesTable.parentId))
+        .leftJoin(companyInfoTable, eq(companyInfoTable.name, productsTable.companyInfoName))
+        .leftJoin(megaListTable, eq(megaListTable.name, productsTable.megaListName))
+        .where(where);
+
+    return rows.map(({ companyInfoName, megaListName, category, parentCategory, ...product }) => ({
+        companyInfoName,
+        megaListName,
+        details: { ...product, category: category ? [parentCategory, category].filter(Boolean).join(' › ') : null } as ProductDetails,
+    }));
+}
+
+/**
+  * Joined product information (provider, category, tags and the other catalog table's row) for catalog rows
+  *
+  * @param table - Catalog table the names belong to
+  * @param names - Row names (company_info.product_name or mega_list.name)
+  * @returns Product details by row name; rows without a product are missing
+  */
+export async function getProductsForRows(table: 'company_info' | 'mega_list', names: string[]): Promise<Map<string, ProductDetails>> {
+    if (names.length === 0) {
+        return new Map();
+    }
+
+    const linkColumn = table === 'company_info' ? productsTable.companyInfoName : productsTable.megaListName;
+    const rows = await selectProductDetails(inArray(linkColumn, names));
+
+    return new Map(rows.map(row => [
+        (table === 'company_info' ? row.companyInfoName : row.megaListName)!,
+        row.details,
+    ]));
+}
+
+/**
+  * Product information by product id, with a pointer to the product's catalog row
+  * (company_info when it has one, since that row carries the description)
+  *
+  * @param ids - Product ids, e.g. from findProducts
+  */
+export async function getProductDetails(ids: string[]): Promise<Map<string, ProductDetails & { catalogRef: CatalogReference | null }>> {
+    if (ids.length === 0) {
+        return new Map();
+    }
+
+    const rows = await selectProductDetails(inArray(productsTable.id, ids));
+
+    return new Map(rows.map(({ companyInfoName, megaListName, details }) => [details.id, {
+        ...details,
+        catalogRef: companyInfoName
+            ? { table: 'company_info' as const, name: companyInfoName }
+            : megaListName ? { table: 'mega_list' as const, name: megaListName } : null,
+    }]));
+}
+
+/**
+  * List every product (id and name), e.g. for pickers in the admin pages
+  */
+export async function listProducts(): Promise<Array<{ id: string; name: string }>> {
+    return db
+        .select({ id: productsTable.id, name: productsTable.name })
+        .from(productsTable)
+        .orderBy(productsTable.name);
+}
+
+/**
+  * Find the products named in free text, e.g. a stack the model proposes
+  *
+  * Matches the product id, the product name or either catalog row name, ignoring case,
+  * punctuation and "(...)" suffixes ("neon", "Neon (Postgres)" and "neon-postgres" all match).
+  *
+  * @param names - Names to look up
+  * @returns Product id and name by requested name; names without a product are missing
+  */
+export async function findProducts(names: string[]): Promise<Map<string, { id: string; name: string }>> {
+    const found = new Map<string, { id: string; name: string }>();
+
+    if (names.length === 0) {
+        return found;
+    }
+
+    const products = await db
+        .select({
+            id: productsTable.id,
+            name: productsTable.name,
+            companyInfoName: productsTable.companyInfoName,
+            megaListName: productsTable.megaListName,
+        })
+        .from(productsTable);
+
+    const byId = new Map(products.map(product => [product.id, product]));
+    const byKey = new Map<string, { id: string; name: string }>();
+
+    for (const product of products) {
+        for (const name of [product.name, product.companyInfoName, product.megaListName]) {
+            const key = name ? nameKey(name) : '';
+            if (key && !byKey.has(key)) {
+                byKey.set(key, product);
+            }
+        }
+    }
+
+    for (const name of names) {
+        const product = byId.get(name.trim()) ?? byKey.get(nameKey(name));
+        if (product) {
+            found.set(name, { id: product.id, name: product.name });
+        }
+    }
+
+    return found;
+}
@@ -0,0 +1,158 @@
+/**
+  * Model Provider Registry
+  *
+  * Every selectable provider is registered with the AI SDK provider registry
+  * and listed in config.providers with its aliases and allowed models.
+  * Names from requests are resolved through the aliases (e.g. 'claude' -> 'anthropic', 'grok' -> 'xai').
+  * The registry also serves embedding models (config.embeddings), including the local hash model.
+  */
+
+import { createProviderRegistry, type EmbeddingModel, type LanguageModel } from 'ai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { openai } from '@ai-sdk/openai';
+import { google } from '@ai-sdk/google';
+import { xai } from '@ai-sdk/xai';
+
+import config from './config';
+import { mockProvider } from './mockModel';
+import { localProvider } from './hashEmbedding';
+
+const registry = createProviderRegistry({
+    anthropic,
+    openai,
+    google,
+    xai,
+    mock: mockProvider,
+    local: localProvider,
+});
+
+export interface ModelSelection {
+    provider: string;
+    model: string;
+}
+
+export type ModelSelectionResult =
+    | ({ status: 'ok' } & ModelSelection)
+    | { status: 'error'; error: string };
+
+/**
+  * Lower-case a provider name and drop spaces and punctuation ('GitHub Copilot' -> 'githubcopilot')
+  */
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+  * Whether a provider can be selected (dev-only providers are limited to development unless they are the configured default)
+  */
+export function isProviderAvailable(provider: string): boolean {
+    const entry = config.providers[provider];
+    return !!entry && (!entry.devOnly || import.meta.env.DEV || provider === config.provider);
+}
+
+/**
+  * Resolve a provider name or alias to its registry key
+  *
+  * @returns The provider key, or null if it is unknown or unavailable
+  */
+export function resolveProvider(name: string): string | null {
+    const wanted = normalizeName(name);
+
+    for (const [provider, { aliases }] of Object.entries(config.providers)) {
+        if ([provider, ...aliases].some(alias => normalizeName(alias) === wanted)) {
+            return isProviderAvailable(provider) ? provider : null;
+        }
+    }
+
+    return null;
+}
+
+/**
+  * Get the default model of a provider (config.model if the provider offers it, otherwise its first model)
+  */
+function getDefaultModel(provider: string): string {
+    const { models } = config.providers[provider];
+    return models.includes(config.model) ? config.model : models[0];
+}
+
+/**
+  * Get the provider and model used when nothing else was chosen
+  */
+export function getDefaultSelection(): ModelSelection {
+    const provider = resolveProvider(config.provider) || 'anthropic';
+    return { provider, model: getDefaultModel(provider) };
+}
+
+/**
+  * List the selectable providers and their models
+  */
+export function listProviders(): Array<{ provider: string; models: string[] }> {
+    return Object.entries(config.providers)
+        .filter(([provider]) => isProviderAvailable(provider))
+        .map(([provider, { models }]) => ({ provider, models }));
+}
+
+/**
+  * Work out which provider and model to use for a request
+  *
+  * An explicit choice in the request wins, then the choice saved on the thread, then the defaults.
+  * A model without a provider selects the provider that offers it.
+  *
+  * @param requested - Provider and/or model from the request body
+  * @param saved - Provider and model saved on the thread, if any
+  */
+export function resolveModelSelection(
+    requested: { provider?: unknown; model?: unknown },
+    saved: { provider?: string | null; model?: string | null } = {}
+): ModelSelectionResult {
+    const requestedProvider = typeof requested.provider === 'string' ? requested.provider.trim() : '';
+    const requestedModel = typeof requested.model === 'string' ? requested.model.trim() : '';
+
+    let provider: string | null = null;
+
+    if (requestedProvider) {
+        provider = resolveProvider(requestedProvider);
+        if (!provider) {
+            const available = listProviders().map(entry => entry.provider).join(', ');
+            return { status: 'error', error: `Unknown provider "${requestedProvider}". Available providers: ${available}` };
+        }
+    } else if (requestedModel) {
+        provider = listProviders().find(entry => entry.models.includes(requestedModel))?.provider || null;
+        if (!provider) {
+            return { status: 'error', error: `Unknown model "${requestedModel}"` };
+        }
+    } else if (saved.provider && isProviderAvailable(saved.provider)) {
+        provider = saved.provider;
+    } else {
+        provider = getDefaultSelection().provider;
+    }
+
+    const { models } = config.providers[provider];
+
+    if (requestedModel) {
+        if (!models.includes(requestedModel)) {
+            return { status: 'error', error: `Model "${requestedModel}" is not available for ${provider}. Available models: ${models.join(', ')}` };
+        }
+        return { status: 'ok', provider, model: requestedModel };
+    }
+
+    if (provider === saved.provider && saved.model && models.includes(saved.model)) {
+        return { status: 'ok', provider, model: saved.model };
+    }
+
+    return { status: 'ok', provider, model: getDefaultModel(provider) };
+}
+
+/**
+  * Get the language model for a provider and model from the registry
+  */
+export function getLanguageModel({ provider, model }: ModelSelection): LanguageModel {
+    return registry.languageModel(`${provider}:${model}` as Parameters<typeof registry.languageModel>[0]);
+}
+
+/**
+  * Get the embedding model configured in config.embeddings from the registry
+  */
+export function getEmbeddingModel({ provider, model }: ModelSelection = config.embeddings): EmbeddingModel<string> {
+    return registry.textEmbeddingModel(`${provider}:${model}` as Parameters<typeof registry.textEmbeddingModel>[0]);
+}
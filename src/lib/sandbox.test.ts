@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import { runInSandbox } from './sandbox';
+
+describe('runInSandbox', () => {
+    it('returns the last expression and captures console output', async () => {
+        const result = await runInSandbox('console.log("users", 1000); const perUser = 0.02; 1000 * perUser');
+
+        expect(result).toMatchObject({ success: true, result: '20', logs: ['users 1000'] });
+    });
+
+    it('returns the last expression of code that uses await', async () => {
+        expect(await runInSandbox('await Promise.resolve(7)')).toMatchObject({ success: true, result: '7' });
+        expect(await runInSandbox('const base = await Promise.resolve(2);\nbase * 3 // monthly')).toMatchObject({ success: true, result: '6' });
+        expect(await runInSandbox('const total = await Promise.resolve(5);\nreturn { total };')).toMatchObject({ success: true, result: '{\n  "total": 5\n}' });
+    });
+
+    it('reports rejected promises as failures', async () => {
+        const result = await runInSandbox('await Promise.reject(new Error("no pricing"))');
+
+        expect(result).toMatchObject({ success: false, error: 'no pricing' });
+    });
+
+    it('has no process, require, fetch or timers', async () => {
+        const result = await runInSandbox('[typeof process, typeof require, typeof fetch, typeof setTimeout, typeof globalThis.Buffer].join(",")');
+
+        expect(result).toMatchObject({ success: true, result: 'undefined,undefined,undefined,undefined,undefined' });
+        expect(await runInSandbox('require("node:fs")')).toMatchObject({ success: false, error: 'require is not defined' });
+    });
+
+    it('cannot compile strings with eval or Function', async () => {
+        for (const code of ['eval("1 + 1")', 'Function("return 1")()', '(() => {}).constructor("return process")()', 'new (async function () {}).constructor("return 1")']) {
+            const result = await runInSandbox(code);
+
+            expect(result.success).toBe(false);
+            expect(result).toMatchObject({ error: expect.stringMatching(/Code generation from strings disallowed/) });
+        }
+    });
+
+    it('stops code that runs past the time limit', async () => {
+        const result = await runInSandbox('while (true) {}', { timeoutMs: 200 });
+
+        expect(result).toMatchObject({ success: false, error: 'Script execution timed out after 200ms' });
+    });
+
+    it('stops code that runs past the memory limit', async () => {
+        const result = await runInSandbox('const chunks = []; while (true) { chunks.push(new Array(1e6).fill(chunks.length)); }', { memoryMb: 16, timeoutMs: 10000 });
+
+        expect(result).toMatchObject({ success: false, error: 'Sandbox ran out of memory (limit 16MB)' });
+    }, 20000);
+});
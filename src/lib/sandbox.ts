@@ -0,0 +1,231 @@
+/**
+  * JavaScript Sandbox
+  *
+  * Runs untrusted (model-written) JavaScript away from the server process:
+  * - A worker thread with heap/stack limits and an empty environment
+  * - Inside it, a fresh vm context that only has the ECMAScript built-ins
+  *   (no process, require, fetch, timers) and cannot compile strings (eval, Function)
+  * - A CPU-time limit on the code and a wall-clock limit on the whole worker
+  *
+  * Only strings cross between the context and the host, so no host object
+  * (and its constructor chain) is reachable from the sandboxed code.
+  */
+
+import { Worker } from 'node:worker_threads';
+import { parse } from 'acorn';
+
+import config from './config';
+
+export type SandboxResult =
+    | { success: true; result: string; logs: string[]; durationMs: number }
+    | { success: false; error: string; logs: string[]; durationMs: number };
+
+export interface SandboxOptions {
+    timeoutMs?: number;
+    memoryMb?: number;
+    maxOutputChars?: number;
+}
+
+// Runs inside the vm context before the user's code: console capture and result formatting
+const contextBootstrap = `
+    const __logs = [];
+    let __logChars = 0;
+    const __format = (value) => {
+        if (typeof value === 'string') return value;
+        if (typeof value === 'undefined') return 'undefined';
+        if (typeof value === 'function') return '[Function]';
+        if (typeof value === 'bigint') return value.toString() + 'n';
+        try {
+            return JSON.stringify(value, (key, item) => typeof item === 'bigint' ? item.toString() : item, 2) ?? String(value);
+        } catch (error) {
+            return String(value);
+        }
+    };
+    const __log = (level) => (...args) => {
+        if (__logChars > __maxOutputChars) return;
+        const line = (level === 'log' ? '' : '[' + level + '] ') + args.map(__format).join(' ');
+        __logChars += line.length;
+        __logs.push(line);
+    };
+    globalThis.console = {
+        log: __log('log'),
+        info: __log('info'),
+        warn: __log('warn'),
+        error: __log('error'),
+        debug: __log('debug'),
+    };
+    var __output;
+    var __error;
+    const __finish = (value) => {
+        if (value && typeof value.then === 'function') {
+            value.then(
+                (settled) => { __output = __format(settled); },
+                (error) => { __error = String(error && error.stack ? error.message : error); }
+            );
+        } else {
+            __output = __format(value);
+        }
+    };
+`;
+
+// Worker entry point (CommonJS, evaluated from a string so it needs no separate bundle entry)
+const workerSource = `
+    const { parentPort, workerData } = require('node:worker_threads');
+    const vm = require('node:vm');
+
+    const { code, asyncCode, timeoutMs, maxOutputChars, bootstrap } = workerData;
+
+    const context = vm.createContext(Object.create(null), {
+        name: 'sandbox',
+        codeGeneration: { strings: false, wasm: false },
+        microtaskMode: 'afterEvaluate',
+    });
+
+    const run = (source) => vm.runInContext(source, context, { timeout: timeoutMs, filename: 'sandbox.js' });
+    const read = (source) => vm.runInContext(source, context, { timeout: timeoutMs });
+
+    try {
+        run('const __maxOutputChars = ' + Number(maxOutputChars) + ';' + bootstrap);
+
+        // Plain scripts return their last expression; code using top-level return/await runs as an async function body
+        let script;
+        try {
+            script = new vm.Script(code, { filename: 'sandbox.js' });
+        } catch (error) {
+            if (!(error instanceof SyntaxError)) throw error;
+            script = new vm.Script(asyncCode, { filename: 'sandbox.js' });
+        }
+
+        context.__value = script.runInContext(context, { timeout: timeoutMs });
+        read('__finish(__value)');
+
+        parentPort.postMessage({
+            output: read('__output === undefined ? null : String(__output)'),
+            error: read('__error === undefined ? null : String(__error)'),
+            logs: read('JSON.stringify(__logs)'),
+        });
+    } catch (error) {
+        let logs = '[]';
+        try {
+            logs = read('JSON.stringify(__logs)');
+        } catch {}
+        parentPort.postMessage({
+            output: null,
+            error: error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT'
+                ? 'Script execution timed out after ' + timeoutMs + 'ms'
+                : String(error && error.message ? error.message : error),
+            logs,
+        });
+    }
+`;
+
+/**
+  * Wrap code that uses top-level await or return as an async function body
+  *
+  * The last statement, when it is an expression, is returned, so its value is
+  * the result as it would be in a plain script.
+  */
+function toAsyncFunction(code: string): string {
+    let body = code;
+
+    try {
+        const program = parse(code, {
+            ecmaVersion: 'latest',
+            sourceType: 'script',
+            allowAwaitOutsideFunction: true,
+            allowReturnOutsideFunction: true,
+        });
+        const last = program.body.at(-1);
+
+        if (last?.type === 'ExpressionStatement') {
+            body = `${code.slice(0, last.start)}return (${code.slice(last.expression.start, last.expression.end)});${code.slice(last.end)}`;
+        }
+    } catch {
+        // Syntax errors are reported when the worker compiles the code
+    }
+
+    return `(async function () {\n${body}\n})()`;
+}
+
+/**
+  * Cut a string down to a maximum length
+  */
+function truncate(value: string, maxChars: number): string {
+    return value.length > maxChars ? `${value.slice(0, maxChars)}… (truncated)` : value;
+}
+
+/**
+  * Run JavaScript in the sandbox
+  *
+  * The value of the last expression (or of a top-level return) is the result,
+  * also for code that uses top-level await.
+  * Never throws: failures, timeouts and out-of-memory are reported in the result.
+  *
+  * @param code - JavaScript source
+  * @param options - Limits, defaulting to config.sandbox
+  */
+export function runInSandbox(code: string, options: SandboxOptions = {}): Promise<SandboxResult> {
+    const {
+        timeoutMs = config.sandbox.timeoutMs,
+        memoryMb = config.sandbox.memoryMb,
+        maxOutputChars = config.sandbox.maxOutputChars,
+    } = options;
+
+    const startTime = Date.now();
+
+    return new Promise((resolve) => {
+        let settled = false;
+
+        const worker = new Worker(workerSource, {
+            eval: true,
+            workerData: { code, asyncCode: toAsyncFunction(code), timeoutMs, maxOutputChars, bootstrap: contextBootstrap },
+            env: {},
+            execArgv: [],
+            stdout: true,
+            stderr: true,
+            resourceLimits: {
+                maxOldGenerationSizeMb: memoryMb,
+                maxYoungGenerationSizeMb: Math.max(1, Math.floor(memoryMb / 4)),
+                stackSizeMb: 4,
+            },
+        });
+
+        const finish = (result: { output?: string | null; error?: string | null; logs?: string }) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(wallClockTimer);
+            worker.terminate().catch(() => {});
+
+            let logs: string[] = [];
+            try {
+                logs = JSON.parse(result.logs || '[]');
+            } catch {}
+            logs = logs.map(line => truncate(line, maxOutputChars));
+
+            const durationMs = Date.now() - startTime;
+
+            if (result.error) {
+                resolve({ success: false, error: truncate(result.error, maxOutputChars), logs, durationMs });
+            } else {
+                resolve({ success: true, result: truncate(result.output ?? 'undefined', maxOutputChars), logs, durationMs });
+            }
+        };
+
+        // CPU time is limited inside the worker; this also catches work that never yields back to the vm
+        const wallClockTimer = setTimeout(() => {
+            finish({ error: `Sandbox timed out after ${timeoutMs}ms` });
+        }, timeoutMs + 1000);
+
+        worker.on('message', finish);
+        worker.on('error', (error: Error & { code?: string }) => {
+            finish({
+                error: error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+                    ? `Sandbox ran out of memory (limit ${memoryMb}MB)`
+                    : error.message,
+            });
+        });
+        worker.on('exit', (exitCode) => {
+            finish({ error: `Sandbox exited unexpectedly (code ${exitCode})` });
+        });
+    });
+}
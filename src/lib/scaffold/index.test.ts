@@ -0,0 +1,93 @@
+import { inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+
+import { generateScaffold, listScaffoldTree, zipScaffold } from './index';
+
+/**
+  * Read the entries of a zip archive from its central directory
+  */
+function readZipEntries(zip: Buffer): Map<string, string> {
+    const entries = new Map<string, string>();
+    const endOffset = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    let offset = zip.readUInt32LE(endOffset + 16);
+
+    for (let index = 0; index < zip.readUInt16LE(endOffset + 10); index++) {
+        const method = zip.readUInt16LE(offset + 10);
+        const compressedSize = zip.readUInt32LE(offset + 20);
+        const nameLength = zip.readUInt16LE(offset + 28);
+        const extraLength = zip.readUInt16LE(offset + 30);
+        const commentLength = zip.readUInt16LE(offset + 32);
+        const localOffset = zip.readUInt32LE(offset + 42);
+        const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+        const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+        const data = zip.subarray(dataStart, dataStart + compressedSize);
+        entries.set(name, (method === 8 ? inflateRawSync(data) : data).toString('utf8'));
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+describe('generateScaffold', () => {
+    const scaffold = generateScaffold(['Next.js', 'Supabase', 'Stripe', 'PostgreSQL', 'Redis', 'Acme Widgets'], { projectName: 'My Shop' });
+
+    it('lays out the project for the stack', () => {
+        expect(listScaffoldTree(scaffold)).toBe([
+            'my-shop/',
+            '├── src/',
+            '│   ├── app/',
+            '│   │   ├── layout.tsx',
+            '│   │   └── page.tsx',
+            '│   └── lib/',
+            '│       ├── stripe.ts',
+            '│       └── supabase.ts',
+            '├── .env.example',
+            '├── .gitignore',
+            '├── docker-compose.yml',
+            '├── next.config.mjs',
+            '├── package.json',
+            '├── README.md',
+            '└── tsconfig.json',
+        ].join('\n'));
+    });
+
+    it('lists the keys each service needs in .env.example', () => {
+        const keys = scaffold.files['.env.example'].split('\n').filter(line => /^[A-Z_]+=/.test(line)).map(line => line.split('=')[0]);
+
+        expect(keys).toEqual([
+            'SUPABASE_URL',
+            'SUPABASE_ANON_KEY',
+            'SUPABASE_SERVICE_ROLE_KEY',
+            'DATABASE_URL',
+            'REDIS_URL',
+            'STRIPE_SECRET_KEY',
+            'STRIPE_PUBLISHABLE_KEY',
+            'STRIPE_WEBHOOK_SECRET',
+        ]);
+        expect(scaffold.env).toEqual(keys);
+    });
+
+    it('runs the local services with docker-compose', () => {
+        const compose = scaffold.files['docker-compose.yml'];
+
+        expect(scaffold.services).toEqual(['postgres', 'redis']);
+        expect(compose).toContain('  postgres:\n    image: "postgres:16-alpine"');
+        expect(compose).toContain('  redis:\n    image: "redis:7-alpine"');
+        expect(compose).toContain('volumes:\n  postgres-data:');
+    });
+
+    it('reports the services without a template', () => {
+        expect(scaffold.matched.map(item => item.template)).toEqual(['next-js', 'supabase', 'stripe', 'postgresql', 'redis']);
+        expect(scaffold.unmatched).toEqual(['Acme Widgets']);
+        expect(scaffold.files['README.md']).toContain('Acme Widgets');
+    });
+
+    it('zips the same files under the project folder', () => {
+        const entries = readZipEntries(zipScaffold(scaffold));
+
+        expect([...entries.keys()].sort()).toEqual(Object.keys(scaffold.files).map(file => `my-shop/${file}`).sort());
+        expect(entries.get('my-shop/package.json')).toBe(scaffold.files['package.json']);
+    });
+});
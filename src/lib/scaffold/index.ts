@@ -0,0 +1,319 @@
+/**
+  * Project Scaffold
+  *
+  * Turns an agreed stack into a starter project (served as a zip by /api/scaffold
+  * and offered by the generateScaffold tool):
+  * - package.json with the dependencies and scripts of every service
+  * - .env.example with the keys each service needs, grouped per service
+  * - docker-compose.yml for the services that can run locally (databases, caches, storage)
+  * - config and starter files, and a README with the setup steps
+  *
+  * Per-product content lives in ./templates.ts. generateScaffold is pure, so a
+  * scaffold can be checked offline by looking at its file tree; scaffoldStack
+  * additionally resolves the names against the catalog.
+  */
+
+import { nameKey } from '../catalogVocabulary';
+import { findProducts, slugify } from '../products';
+import type { StackLayer } from '../types';
+import { productTemplates, type ComposeService, type ProductTemplate } from './templates';
+import { createZip } from './zip';
+
+export interface Scaffold {
+    projectName: string;
+    // File contents by path relative to the project root
+    files: Record<string, string>;
+    // Stack entries with a template, and the template they used
+    matched: Array<{ name: string; template: string }>;
+    // Stack entries without a template (listed in the README to set up by hand)
+    unmatched: string[];
+    // Keys in .env.example
+    env: string[];
+    // docker-compose services
+    services: string[];
+    // Conflicts between templates, e.g. two templates writing the same file
+    warnings: string[];
+}
+
+const DEFAULT_PROJECT_NAME = 'my-stack-app';
+
+// Frameworks first, so their scripts and files win conflicts
+const layerOrder: StackLayer[] = ['frontend', 'backend', 'database', 'auth', 'payments', 'storage', 'ai', 'analytics', 'other', 'hosting'];
+
+const templatesByKey = new Map<string, ProductTemplate>();
+for (const template of productTemplates) {
+    for (const name of [template.id, template.name, ...(template.aliases || [])]) {
+        templatesByKey.set(nameKey(name), template);
+    }
+}
+
+/**
+  * Find the template for a stack entry
+  *
+  * @param name - Name as given in the stack
+  * @param product - The catalog product the name resolved to, if any
+  */
+export function findTemplate(name: string, product?: { id: string; name: string }): ProductTemplate | null {
+    if (product) {
+        const byId = productTemplates.find(template => template.id === product.id);
+        if (byId) {
+            return byId;
+        }
+    }
+
+    return templatesByKey.get(nameKey(name)) ?? (product ? templatesByKey.get(nameKey(product.name)) : undefined) ?? null;
+}
+
+/**
+  * Sort an object's keys, e.g. for package.json dependencies
+  */
+function sortKeys(record: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+  * Merge a template's records into the scaffold's, keeping the first value of a key
+  */
+function mergeRecord(target: Record<string, string>, source: Record<string, string> | undefined, onConflict: (key: string) => void) {
+    for (const [key, value] of Object.entries(source || {})) {
+        if (key in target) {
+            if (target[key] !== value) {
+                onConflict(key);
+            }
+            continue;
+        }
+        target[key] = value;
+    }
+}
+
+function renderEnvExample(projectName: string, templates: ProductTemplate[]): { content: string; keys: string[] } {
+    const lines = [`# Environment variables for ${projectName}`, '# Copy to .env and fill in the values', ''];
+    const owners = new Map<string, string>();
+
+    for (const template of templates) {
+        const variables = (template.env || []).filter(variable => !owners.has(variable.key));
+        const shared = (template.env || []).filter(variable => owners.has(variable.key));
+        if (variables.length === 0 && shared.length === 0) {
+            continue;
+        }
+
+        lines.push(`# --- ${template.name} ---`);
+        for (const variable of variables) {
+            owners.set(variable.key, template.name);
+            lines.push(`# ${variable.description}`, `${variable.key}=${variable.example ?? ''}`);
+        }
+        for (const variable of shared) {
+            lines.push(`# Also uses ${variable.key} (see ${owners.get(variable.key)})`);
+        }
+        lines.push('');
+    }
+
+    return { content: lines.join('\n'), keys: [...owners.keys()] };
+}
+
+/**
+  * Render docker-compose.yml (values are JSON strings, which YAML reads as quoted strings)
+  */
+function renderCompose(services: Record<string, ComposeService>): string {
+    const lines = ['services:'];
+    const volumes = new Set<string>();
+
+    for (const [name, service] of Object.entries(services)) {
+        lines.push(`  ${name}:`, `    image: ${JSON.stringify(service.image)}`);
+        if (service.command) {
+            lines.push(`    command: ${JSON.stringify(service.command)}`);
+        }
+        if (service.ports?.length) {
+            lines.push('    ports:', ...service.ports.map(port => `      - ${JSON.stringify(port)}`));
+        }
+        if (service.environment) {
+            lines.push('    environment:', ...Object.entries(service.environment).map(([key, value]) => `      ${key}: ${JSON.stringify(value)}`));
+        }
+        if (service.volumes?.length) {
+            lines.push('    volumes:', ...service.volumes.map(volume => `      - ${JSON.stringify(volume)}`));
+            service.volumes.map(volume => volume.split(':')[0]).filter(source => !/^[./~]/.test(source)).forEach(source => volumes.add(source));
+        }
+        lines.push('    restart: "unless-stopped"');
+    }
+
+    if (volumes.size > 0) {
+        lines.push('', 'volumes:', ...[...volumes].map(volume => `  ${volume}:`));
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function renderReadme(scaffold: Omit<Scaffold, 'files'>, templates: ProductTemplate[], scripts: Record<string, string>): string {
+    const lines = [
+        `# ${scaffold.projectName}`,
+        '',
+        'Starter project generated by BuildLoom for this stack:',
+        '',
+        '| Layer | Service | Docs |',
+        '| --- | --- | --- |',
+        ...templates.map(template => `| ${template.layer} | ${template.name} | ${template.docsUrl} |`),
+        ...scaffold.unmatched.map(name => `| — | ${name} | not covered by the scaffold, set up by hand |`),
+        '',
+        '## Setup',
+        '',
+    ];
+
+    const steps = [
+        'Install the dependencies: `npm install`',
+        scaffold.env.length > 0 ? 'Copy `.env.example` to `.env` and fill in the keys (each is described in the file)' : null,
+        scaffold.services.length > 0 ? `Start the local services (${scaffold.services.join(', ')}): \`docker compose up -d\`` : null,
+        ...templates.flatMap(template => (template.setup || []).map(step => `${template.name}: ${step}`)),
+        scripts.dev ? 'Start the app: `npm run dev`' : null,
+        scripts['dev:api'] ? 'Start the API: `npm run dev:api`' : null,
+    ].filter((step): step is string => Boolean(step));
+    steps.forEach((step, index) => lines.push(`${index + 1}. ${step}`));
+
+    if (scaffold.services.length === 0) {
+        lines.push('', 'No service in this stack runs locally, so there is no docker-compose.yml; the hosted services are configured through `.env`.');
+    }
+
+    if (Object.keys(scripts).length > 0) {
+        lines.push('', '## Scripts', '', '| Command | Runs |', '| --- | --- |');
+        Object.entries(scripts).forEach(([name, command]) => lines.push(`| \`npm run ${name}\` | \`${command}\` |`));
+    }
+
+    if (scaffold.unmatched.length > 0) {
+        lines.push('', '## Not included', '', `There are no templates for ${scaffold.unmatched.join(', ')}; add their packages and keys by hand.`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+  * Generate the files of a starter project for a stack
+  *
+  * @param stack - Product names, e.g. ["Next.js", "Supabase", "Stripe"]
+  * @param options.projectName - Folder and package name (slugified; default "my-stack-app")
+  * @param options.products - Catalog products the names resolved to (see findProducts), to match templates by product id
+  */
+export function generateScaffold(
+    stack: string[],
+    { projectName, products }: { projectName?: string; products?: Map<string, { id: string; name: string }> } = {}
+): Scaffold {
+    const name = projectName ? slugify(projectName) : DEFAULT_PROJECT_NAME;
+    const warnings: string[] = [];
+    const matched: Scaffold['matched'] = [];
+    const unmatched: string[] = [];
+    const templates: ProductTemplate[] = [];
+
+    for (const entry of stack.map(item => item.trim()).filter(Boolean)) {
+        const template = findTemplate(entry, products?.get(entry));
+        if (!template) {
+            if (!unmatched.includes(entry)) {
+                unmatched.push(entry);
+            }
+            continue;
+        }
+        matched.push({ name: entry, template: template.id });
+        if (!templates.includes(template)) {
+            templates.push(template);
+        }
+    }
+    templates.sort((a, b) => layerOrder.indexOf(a.layer) - layerOrder.indexOf(b.layer));
+
+    const dependencies: Record<string, string> = {};
+    const devDependencies: Record<string, string> = {};
+    const scripts: Record<string, string> = {};
+    const services: Record<string, ComposeService> = {};
+    const templateFiles: Record<string, string> = {};
+
+    for (const template of templates) {
+        mergeRecord(dependencies, template.dependencies, key => warnings.push(`${template.name} wants a different version of ${key}; kept ${dependencies[key]}`));
+        mergeRecord(devDependencies, template.devDependencies, key => warnings.push(`${template.name} wants a different version of ${key}; kept ${devDependencies[key]}`));
+        mergeRecord(scripts, template.scripts, key => warnings.push(`${template.name} also defines the "${key}" script; kept "${scripts[key]}"`));
+        mergeRecord(templateFiles, template.files, path => warnings.push(`${template.name} also writes ${path}; kept the first version`));
+        for (const [service, definition] of Object.entries(template.services || {})) {
+            services[service] ??= definition;
+        }
+    }
+
+    // Packages a runtime dependency already provides don't need to be dev dependencies too
+    Object.keys(devDependencies).filter(key => key in dependencies).forEach(key => delete devDependencies[key]);
+
+    const env = renderEnvExample(name, templates);
+    const summary = { projectName: name, matched, unmatched, env: env.keys, services: Object.keys(services), warnings };
+
+    const files: Record<string, string> = {
+        'package.json': JSON.stringify({
+            name,
+            version: '0.1.0',
+            private: true,
+            type: 'module',
+            scripts,
+            dependencies: sortKeys(dependencies),
+            devDependencies: sortKeys(devDependencies),
+        }, null, 2) + '\n',
+        '.env.example': env.content,
+        '.gitignore': ['node_modules/', 'dist/', '.next/', '.svelte-kit/', '.astro/', '.vercel/', '.netlify/', '.env', '.env.*', '!.env.example', '.DS_Store', ''].join('\n'),
+        'README.md': renderReadme(summary, templates, scripts),
+    };
+    if (summary.services.length > 0) {
+        files['docker-compose.yml'] = renderCompose(services);
+    }
+    for (const [path, content] of Object.entries(templateFiles)) {
+        if (path in files) {
+            warnings.push(`Template file ${path} clashes with a generated file; kept the generated one`);
+            continue;
+        }
+        files[path] = content;
+    }
+
+    return { ...summary, files };
+}
+
+/**
+  * Render a scaffold's file tree, e.g. for the chat or an offline check
+  */
+export function listScaffoldTree(scaffold: Pick<Scaffold, 'projectName' | 'files'>): string {
+    interface Node { [name: string]: Node }
+    const root: Node = {};
+
+    for (const path of Object.keys(scaffold.files)) {
+        let node = root;
+        for (const part of path.split('/')) {
+            node = node[part] ??= {};
+        }
+    }
+
+    const lines = [`${scaffold.projectName}/`];
+    const walk = (node: Node, prefix: string) => {
+        // Folders first, then files, each alphabetically
+        const names = Object.keys(node).sort((a, b) => {
+            const folders = Number(Object.keys(node[b]).length > 0) - Number(Object.keys(node[a]).length > 0);
+            return folders || a.localeCompare(b);
+        });
+        names.forEach((name, index) => {
+            const last = index === names.length - 1;
+            const isFolder = Object.keys(node[name]).length > 0;
+            lines.push(`${prefix}${last ? '└── ' : '├── '}${name}${isFolder ? '/' : ''}`);
+            walk(node[name], prefix + (last ? '    ' : '│   '));
+        });
+    };
+    walk(root, '');
+
+    return lines.join('\n');
+}
+
+/**
+  * Pack a scaffold into a zip with the project folder at its root
+  */
+export function zipScaffold(scaffold: Pick<Scaffold, 'projectName' | 'files'>): Buffer {
+    const files = Object.fromEntries(Object.entries(scaffold.files).map(([path, content]) => [`${scaffold.projectName}/${path}`, content]));
+    return createZip(files);
+}
+
+/**
+  * Generate a scaffold for a stack, matching the names against the catalog first
+  *
+  * @param stack - Product names, e.g. from a stack recommendation or the model
+  * @param options.projectName - Folder and package name
+  */
+export async function scaffoldStack(stack: string[], { projectName }: { projectName?: string } = {}): Promise<Scaffold> {
+    const products = await findProducts(stack);
+    return generateScaffold(stack, { projectName, products });
+}
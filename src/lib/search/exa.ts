@@ -0,0 +1,64 @@
+/**
+  * Exa Search Provider
+  *
+  * Neural web search and page contents from Exa (https://exa.ai). Domain and
+  * date filters are passed to the API. Needs EXA_SEARCH_API_KEY.
+  */
+
+import Exa from 'exa-js';
+
+import config from '../config';
+import type { SearchProvider } from '../types';
+import { normalizeDomain } from './filters';
+
+// Characters of page text returned as the snippet of each result
+const SNIPPET_CHARS = 500;
+
+let client: Exa | null = null;
+
+/**
+  * Exa client, created on first use so a missing key only fails the calls that need it
+  */
+function getClient(): Exa {
+    const apiKey = process.env.EXA_SEARCH_API_KEY || import.meta.env?.EXA_SEARCH_API_KEY;
+    if (!apiKey) {
+        throw new Error('EXA_SEARCH_API_KEY is not set');
+    }
+
+    client ??= new Exa(apiKey);
+    return client;
+}
+
+const exaProvider: SearchProvider = {
+    name: 'exa',
+
+    search: async (query, filters) => {
+        const response = await getClient().searchAndContents(query, {
+            numResults: filters.limit ?? config.search.maxResults,
+            includeDomains: filters.includeDomains?.map(normalizeDomain),
+            excludeDomains: filters.excludeDomains?.map(normalizeDomain),
+            startPublishedDate: filters.startPublishedDate,
+            endPublishedDate: filters.endPublishedDate,
+            text: { maxCharacters: SNIPPET_CHARS },
+        });
+
+        return response.results.map(result => ({
+            url: result.url,
+            title: result.title || '',
+            snippet: result.text.replace(/\s+/g, ' ').trim(),
+            publishedDate: result.publishedDate || null,
+        }));
+    },
+
+    getContents: async (urls) => {
+        const response = await getClient().getContents(urls, { text: true });
+
+        return response.results.flatMap((result) => {
+            // Exa may normalize the URL; its id is the URL as requested
+            const url = urls.find(requested => requested === result.id || requested === result.url);
+            return url && result.text ? [{ url, title: result.title || '', text: result.text }] : [];
+        });
+    },
+};
+
+export default exaProvider;
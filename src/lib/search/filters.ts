@@ -0,0 +1,57 @@
+/**
+  * Search Filters
+  *
+  * Helpers for providers that can't filter by domain or date themselves:
+  * the filters are applied to their results instead.
+  */
+
+import type { SearchFilters, SearchResult } from '../types';
+
+/**
+  * Normalize a domain filter ("https://www.Example.com/docs" -> "example.com")
+  */
+export function normalizeDomain(domain: string): string {
+    return domain.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').replace(/[/?#].*$/, '');
+}
+
+/**
+  * Whether a URL is on a domain or one of its subdomains
+  */
+export function isOnDomain(url: string, domain: string): boolean {
+    try {
+        const hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+        const target = normalizeDomain(domain);
+        return hostname === target || hostname.endsWith(`.${target}`);
+    } catch {
+        return false;
+    }
+}
+
+/**
+  * Keep the results that match the filters
+  *
+  * Results without a publication date are kept when a date range is given, since
+  * most providers only date some pages.
+  */
+export function applySearchFilters(results: SearchResult[], filters: SearchFilters): SearchResult[] {
+    const start = filters.startPublishedDate ? Date.parse(filters.startPublishedDate) : null;
+    // The end date is inclusive
+    const end = filters.endPublishedDate ? Date.parse(filters.endPublishedDate) + 24 * 60 * 60 * 1000 : null;
+
+    return results.filter((result) => {
+        if (filters.includeDomains?.length && !filters.includeDomains.some(domain => isOnDomain(result.url, domain))) {
+            return false;
+        }
+
+        if (filters.excludeDomains?.some(domain => isOnDomain(result.url, domain))) {
+            return false;
+        }
+
+        const published = result.publishedDate ? Date.parse(result.publishedDate) : NaN;
+        if (!Number.isNaN(published) && ((start !== null && published < start) || (end !== null && published >= end))) {
+            return false;
+        }
+
+        return true;
+    });
+}
@@ -0,0 +1,44 @@
+/**
+  * Search Provider Registry
+  *
+  * Web search for the search tool, and page contents for getPageContent (see
+  * ../documentation.ts). The provider is picked with config.search.provider
+  * (SEARCH_PROVIDER). To add a provider, implement SearchProvider (see ../types.ts)
+  * and add it to the registry.
+  */
+
+import config from '../config';
+import type { SearchFilters, SearchProvider, SearchResult } from '../types';
+import exaProvider from './exa';
+import searxngProvider from './searxng';
+import mockProvider from './mock';
+
+const searchProviders: Record<string, SearchProvider> = {
+    [exaProvider.name]: exaProvider,
+    [searxngProvider.name]: searxngProvider,
+    [mockProvider.name]: mockProvider,
+};
+
+/**
+  * Get the configured search provider
+  *
+  * @throws If config.search.provider names an unknown provider
+  */
+export function getSearchProvider(name: string = config.search.provider): SearchProvider {
+    const provider = searchProviders[name];
+    if (!provider) {
+        throw new Error(`Unknown search provider "${name}". Use one of: ${Object.keys(searchProviders).join(', ')}`);
+    }
+
+    return provider;
+}
+
+/**
+  * Search the web with the configured provider
+  */
+export async function searchWeb(query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+    return getSearchProvider().search(query, filters);
+}
+
+export { searchProviders };
+export { applySearchFilters, isOnDomain, normalizeDomain } from './filters';
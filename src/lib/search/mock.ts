@@ -0,0 +1,34 @@
+/**
+  * Mock Search Provider
+  *
+  * Deterministic fake results for offline development and demos
+  * (SEARCH_PROVIDER=mock), like the mock AI provider. Results are built from the
+  * query and respect the domain and date filters.
+  */
+
+import config from '../config';
+import type { SearchProvider } from '../types';
+import { applySearchFilters, normalizeDomain } from './filters';
+
+const MOCK_DOMAINS = ['docs.example.com', 'blog.example.org', 'news.example.net'];
+
+const mockProvider: SearchProvider = {
+    name: 'mock',
+
+    search: async (query, filters) => {
+        const domains = filters.includeDomains?.length ? filters.includeDomains.map(normalizeDomain) : MOCK_DOMAINS;
+        const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'query';
+        const date = filters.endPublishedDate || filters.startPublishedDate || '2025-01-15';
+
+        const results = domains.map((domain, index) => ({
+            url: `https://${domain}/${slug}`,
+            title: `${query} (mock result ${index + 1})`,
+            snippet: `Mock search result for "${query}" from ${domain}. Set SEARCH_PROVIDER to exa or searxng for real results.`,
+            publishedDate: date,
+        }));
+
+        return applySearchFilters(results, filters).slice(0, filters.limit ?? config.search.maxResults);
+    },
+};
+
+export default mockProvider;
@@ -0,0 +1,72 @@
+/**
+  * SearXNG Search Provider
+  *
+  * Metasearch through a SearXNG instance (config.search.searxngUrl, SEARXNG_URL)
+  * with the JSON output format enabled. Domain filters become site: operators and
+  * a time range, and are applied to the results as well since not every engine
+  * honours them. It has no page contents; getPageContent fetches pages over HTTP.
+  */
+
+import config from '../config';
+import type { SearchFilters, SearchProvider } from '../types';
+import { applySearchFilters, normalizeDomain } from './filters';
+
+/**
+  * Narrowest SearXNG time range covering the start date
+  */
+function timeRange(startPublishedDate?: string): 'day' | 'month' | 'year' | null {
+    if (!startPublishedDate) {
+        return null;
+    }
+
+    const days = (Date.now() - Date.parse(startPublishedDate)) / (24 * 60 * 60 * 1000);
+
+    if (days <= 1) return 'day';
+    if (days <= 31) return 'month';
+    if (days <= 366) return 'year';
+    return null;
+}
+
+/**
+  * Add site: operators for the domain filters to the query
+  */
+function buildQuery(query: string, { includeDomains = [], excludeDomains = [] }: SearchFilters): string {
+    const include = includeDomains.map(domain => `site:${normalizeDomain(domain)}`).join(' OR ');
+    const exclude = excludeDomains.map(domain => `-site:${normalizeDomain(domain)}`).join(' ');
+
+    return [query, include && (includeDomains.length > 1 ? `(${include})` : include), exclude].filter(Boolean).join(' ');
+}
+
+const searxngProvider: SearchProvider = {
+    name: 'searxng',
+
+    search: async (query, filters) => {
+        const params = new URLSearchParams({ q: buildQuery(query, filters), format: 'json' });
+        const range = timeRange(filters.startPublishedDate);
+        if (range) {
+            params.set('time_range', range);
+        }
+
+        const response = await fetch(`${config.search.searxngUrl.replace(/\/+$/, '')}/search?${params}`, {
+            headers: { Accept: 'application/json' },
+            signal: AbortSignal.timeout(config.search.timeoutMs),
+        });
+
+        if (!response.ok) {
+            throw new Error(`SearXNG returned HTTP ${response.status}${response.status === 403 ? ' (is the json format enabled in settings.yml?)' : ''}`);
+        }
+
+        const data = await response.json() as { results?: Array<{ url: string; title?: string; content?: string; publishedDate?: string | null }> };
+
+        const results = (data.results || []).map(result => ({
+            url: result.url,
+            title: result.title || '',
+            snippet: (result.content || '').replace(/\s+/g, ' ').trim(),
+            publishedDate: result.publishedDate || null,
+        }));
+
+        return applySearchFilters(results, filters).slice(0, filters.limit ?? config.search.maxResults);
+    },
+};
+
+export default searxngProvider;
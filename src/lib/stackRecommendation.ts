@@ -0,0 +1,137 @@
+/**
+  * Stack Recommendation Extraction
+  *
+  * Turns the assistant's markdown answer into a typed StackRecommendation
+  * and links every entry back to a row in company_info or mega_list.
+  */
+
+import { generateObject, type LanguageModel, type LanguageModelUsage } from 'ai';
+import { z } from 'zod';
+import { sql, inArray } from 'drizzle-orm';
+
+import { db } from '../db/initialize';
+import { companyInfoTable, megaListTable } from '../db/schema';
+import type { CatalogReference, StackEntry, StackRecommendation } from './types';
+
+export const stackLayers = [
+    'frontend', 'backend', 'database', 'hosting', 'auth',
+    'storage', 'payments', 'ai', 'analytics', 'other'
+] as const;
+
+const extractionSchema = z.object({
+    hasRecommendation: z.boolean().describe('True only if the conversation contains a concrete tech stack recommendation'),
+    summary: z.string().describe('One or two sentence summary of the recommended stack'),
+    entries: z.array(z.object({
+        layer: z.enum(stackLayers).describe('The layer of the stack this service belongs to'),
+        name: z.string().describe('Product or service name exactly as it appears in the database results when possible'),
+        provider: z.string().describe('Company or organisation providing the product (empty if unknown)'),
+        rationale: z.string().describe('Why this service was chosen for the project'),
+        estimatedMonthlyCostMin: z.number().describe('Lower bound of the estimated monthly cost in dollars'),
+        estimatedMonthlyCostMax: z.number().describe('Upper bound of the estimated monthly cost in dollars'),
+        costNotes: z.string().optional().describe('Assumptions behind the cost estimate'),
+    })),
+});
+
+const extractionPrompt = 'You extract structured tech stack recommendations from conversations. Only include services the assistant actually recommended in its latest answer. Do not invent services.';
+
+/**
+  * Find the catalog rows matching the given names (case-insensitive)
+  *
+  * @param names - Product names to look up
+  * @returns Map of lower-cased name to catalog reference
+  */
+async function findCatalogReferences(names: string[]): Promise<Map<string, CatalogReference>> {
+    const refs = new Map<string, CatalogReference>();
+    const lowerNames = [...new Set(names.map(name => name.trim().toLowerCase()).filter(Boolean))];
+
+    if (lowerNames.length === 0) {
+        return refs;
+    }
+
+    // mega_list first so company_info (the richer table) wins on conflicts
+    const megaRows = await db
+        .select({ name: megaListTable.name })
+        .from(megaListTable)
+        .where(inArray(sql`lower(${megaListTable.name})`, lowerNames));
+
+    for (const row of megaRows) {
+        refs.set(row.name.toLowerCase(), { table: 'mega_list', name: row.name });
+    }
+
+    const companyRows = await db
+        .select({ name: companyInfoTable.name })
+        .from(companyInfoTable)
+        .where(inArray(sql`lower(${companyInfoTable.name})`, lowerNames));
+
+    for (const row of companyRows) {
+        refs.set(row.name.toLowerCase(), { table: 'company_info', name: row.name });
+    }
+
+    return refs;
+}
+
+/**
+  * Extract a StackRecommendation from a conversation
+  *
+  * @param convoHistory - The conversation including the latest assistant answer
+  * @param model - The language model to run the extraction with
+  * @returns The recommendation (null if the latest answer did not recommend a stack) and the token usage of the extraction
+  */
+export async function generateStackRecommendation(
+    convoHistory: any[],
+    model: LanguageModel
+): Promise<{ stack: StackRecommendation | null; usage: LanguageModelUsage }> {
+    const { object, usage } = await generateObject({
+        model,
+        schema: extractionSchema,
+        system: extractionPrompt,
+        messages: [
+            ...convoHistory.filter((msg: any) => msg.role !== 'system'),
+            {
+                role: 'user',
+                content: 'Extract the tech stack recommended in your latest answer.',
+            },
+        ],
+    });
+
+    if (!object.hasRecommendation || object.entries.length === 0) {
+        return { stack: null, usage };
+    }
+
+    let refs = new Map<string, CatalogReference>();
+    try {
+        refs = await findCatalogReferences(object.entries.map(entry => entry.name));
+    } catch (error) {
+        console.error('Failed to link stack entries to catalog:', error);
+    }
+
+    const entries: StackEntry[] = object.entries.map(entry => {
+        const min = Math.max(0, entry.estimatedMonthlyCostMin);
+        const max = Math.max(min, entry.estimatedMonthlyCostMax);
+
+        return {
+            layer: entry.layer,
+            name: entry.name,
+            provider: entry.provider,
+            catalogRef: refs.get(entry.name.trim().toLowerCase()) || null,
+            rationale: entry.rationale,
+            estimatedMonthlyCost: {
+                min,
+                max,
+                ...(entry.costNotes ? { notes: entry.costNotes } : {}),
+            },
+        };
+    });
+
+    const stack: StackRecommendation = {
+        summary: object.summary,
+        entries,
+        totalEstimatedMonthlyCost: {
+            min: entries.reduce((total, entry) => total + entry.estimatedMonthlyCost.min, 0),
+            max: entries.reduce((total, entry) => total + entry.estimatedMonthlyCost.max, 0),
+        },
+        generatedAt: new Date().toISOString(),
+    };
+
+    return { stack, usage };
+}
@@ -0,0 +1,223 @@
+/**
+  * Thread Export
+  *
+  * Turns a thread (as loaded by getThread) into a standalone document for
+  * design docs and hackathon submissions, behind /api/thread/[id]/export
+  * (and /api/share/[token]/export for shared threads):
+  * - md: Markdown
+  * - html: the Markdown rendered (lib/markdown.ts) into a print-ready page (save as PDF from the browser)
+  * - json: the same content as data
+  *
+  * Each export has the title, the recommended stack (when one was extracted),
+  * the whole conversation or only the final answer, an appendix of the source
+  * and documentation links, and the thread's cost.
+  */
+
+import type { DisplayMessage, ThreadData } from './getThread';
+import { escapeHtml, renderMarkdown } from './markdown';
+import { slugify } from './products';
+import type { StackRecommendation } from './types';
+
+export const exportFormats = ['md', 'html', 'json'] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// The whole conversation, or only the final answer
+export const exportContents = ['conversation', 'recommendation'] as const;
+export type ExportContent = typeof exportContents[number];
+
+export interface ThreadExport {
+    id: string;
+    title: string;
+    exportedAt: string;
+    content: ExportContent;
+    provider: string | null;
+    model: string | null;
+    mode: string | null;
+    // Total cost of the thread's model calls in dollars
+    cost: number;
+    stack: StackRecommendation | null;
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+    // Links used by the tools or cited in the included answers
+    sources: string[];
+}
+
+export interface ExportedFile {
+    body: string;
+    contentType: string;
+    filename: string;
+}
+
+const assistantName = 'BuildLoom';
+
+// Bare URLs and markdown link targets in message text
+const URL_PATTERN = /https?:\/\/[^\s<>()[\]"'`]+[^\s<>()[\]"'`.,;:!?]/g;
+
+/**
+  * Collect the content of an export from a thread
+  *
+  * @param thread - Thread loaded with getThread or getSharedThread (..., { includeSources: true })
+  * @param content - The whole conversation, or only the final answer
+  */
+export function buildThreadExport(thread: ThreadData, content: ExportContent = 'conversation'): ThreadExport {
+    const displayed = thread.messages.filter((msg): msg is DisplayMessage & { role: 'user' | 'assistant' } => msg.role === 'user' || msg.role === 'assistant');
+    const included = content === 'recommendation'
+        ? displayed.filter(msg => msg.role === 'assistant').slice(-1)
+        : displayed;
+
+    // In recommendation exports, the final answer's sources hang on the last answer of its turn
+    const sourceMessages = content === 'recommendation' ? displayed.slice(displayed.findLastIndex(msg => msg.role === 'user') + 1) : displayed;
+
+    const sources = new Set<string>();
+    for (const msg of sourceMessages) {
+        msg.sources?.forEach(source => source.urls.forEach(url => sources.add(url)));
+    }
+    for (const msg of included) {
+        String(msg.content).match(URL_PATTERN)?.forEach(url => sources.add(url));
+    }
+
+    return {
+        id: thread.id,
+        title: thread.title || 'Untitled Conversation',
+        exportedAt: new Date().toISOString(),
+        content,
+        provider: thread.provider,
+        model: thread.model,
+        mode: thread.mode,
+        cost: thread.cost,
+        stack: thread.stack,
+        // Steps of one answer are shown as one message
+        messages: included.reduce<ThreadExport['messages']>((merged, msg) => {
+            const previous = merged.at(-1);
+            if (previous && previous.role === msg.role) {
+                previous.content += `\n\n${msg.content}`;
+            } else {
+                merged.push({ role: msg.role, content: String(msg.content) });
+            }
+            return merged;
+        }, []),
+        sources: [...sources],
+    };
+}
+
+/**
+  * Escape a value for a markdown table cell
+  */
+function tableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/**
+  * Format a monthly cost range, e.g. "$0–$25"
+  */
+function costRange({ min, max }: { min: number; max: number }): string {
+    return min === max ? `$${min}` : `$${min}–$${max}`;
+}
+
+/**
+  * Render an export as Markdown
+  */
+export function renderExportMarkdown(exported: ThreadExport): string {
+    const lines: string[] = [`# ${exported.title}`, ''];
+
+    const details = [
+        `Exported from ${assistantName} on ${exported.exportedAt.slice(0, 10)}`,
+        exported.model ? `Model: ${exported.provider ? `${exported.provider}:` : ''}${exported.model}` : null,
+        exported.mode ? `Mode: ${exported.mode}` : null,
+        `Cost: $${exported.cost.toFixed(4)}`,
+    ].filter(Boolean);
+    lines.push(details.join(' · '), '');
+
+    if (exported.stack && exported.stack.entries.length > 0) {
+        const { summary, entries, totalEstimatedMonthlyCost } = exported.stack;
+        lines.push('## Recommended stack', '', summary, '');
+        lines.push('| Layer | Service | Provider | Why | Est. monthly cost |', '| --- | --- | --- | --- | --- |');
+        for (const entry of entries) {
+            lines.push(`| ${[entry.layer, entry.name, entry.provider || '—', entry.rationale, costRange(entry.estimatedMonthlyCost)].map(tableCell).join(' | ')} |`);
+        }
+        lines.push('', `**Estimated total:** ${costRange(totalEstimatedMonthlyCost)} per month${totalEstimatedMonthlyCost.notes ? ` (${totalEstimatedMonthlyCost.notes})` : ''}`, '');
+    }
+
+    lines.push(exported.content === 'recommendation' ? '## Final recommendation' : '## Conversation', '');
+    if (exported.messages.length === 0) {
+        lines.push('_No messages yet._', '');
+    }
+    for (const msg of exported.messages) {
+        if (exported.content === 'conversation') {
+            lines.push(`### ${msg.role === 'user' ? 'You' : assistantName}`, '');
+        }
+        lines.push(msg.content.trim(), '');
+    }
+
+    if (exported.sources.length > 0) {
+        lines.push('## Sources and documentation', '');
+        exported.sources.forEach(url => lines.push(`- <${url}>`));
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+  * Render an export as a standalone, print-ready HTML page
+  *
+  * Messages are rendered with renderMarkdown (raw HTML is shown as text), and
+  * the page's Content-Security-Policy blocks scripts as well.
+  */
+export async function renderExportHtml(exported: ThreadExport): Promise<string> {
+    const body = renderMarkdown(renderExportMarkdown(exported));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src https: data:">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(exported.title)}</title>
+<style>
+    body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #222; line-height: 1.55; max-width: 800px; margin: 2rem auto; padding: 0 1.5rem; }
+    h1 { border-bottom: 3px solid #FF9900; padding-bottom: 0.4rem; }
+    h2 { margin-top: 2rem; border-bottom: 1px solid #ddd; padding-bottom: 0.25rem; }
+    h3 { color: #555; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    th, td { border: 1px solid #ccc; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; }
+    code { font-family: 'Courier New', monospace; font-size: 0.9em; }
+    a { color: #0066cc; word-break: break-word; }
+    @media print {
+        body { margin: 0; max-width: none; }
+        h2, h3 { break-after: avoid; }
+        tr, pre { break-inside: avoid; }
+    }
+</style>
+</head>
+<body>
+<article>
+${body}
+</article>
+</body>
+</html>
+`;
+}
+
+/**
+  * Export a thread as a file
+  *
+  * @param thread - Thread loaded with getThread or getSharedThread (..., { includeSources: true })
+  */
+export async function exportThread(
+    thread: ThreadData,
+    { format = 'md', content = 'conversation' }: { format?: ExportFormat; content?: ExportContent } = {}
+): Promise<ExportedFile> {
+    const exported = buildThreadExport(thread, content);
+    const filename = `${slugify(exported.title)}.${format}`;
+
+    switch (format) {
+        case 'json':
+            return { body: JSON.stringify(exported, null, 2), contentType: 'application/json; charset=utf-8', filename };
+        case 'html':
+            return { body: await renderExportHtml(exported), contentType: 'text/html; charset=utf-8', filename };
+        default:
+            return { body: renderExportMarkdown(exported), contentType: 'text/markdown; charset=utf-8', filename };
+    }
+}
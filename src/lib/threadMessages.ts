@@ -0,0 +1,121 @@
+/**
+  * Thread Message Helpers
+  *
+  * Threads store the full AI SDK message history, including the assistant's
+  * tool calls and the tool results. These helpers derive the views other
+  * code needs from that history:
+  * - Plain text conversation (for title generation and stack extraction)
+  * - Tool call sources (for the "show sources" view)
+  */
+
+import type { ModelMessage } from 'ai';
+
+export interface MessageSource {
+    toolCallId: string;
+    toolName: string;
+    input: unknown;
+    output: unknown;
+    urls: string[];
+}
+
+/**
+  * Get the text of a message, ignoring tool calls, tool results and reasoning
+  */
+export function getMessageText(message: ModelMessage | { role: string; content: any }): string {
+    const { content } = message;
+
+    if (typeof content === 'string') {
+        return content;
+    }
+
+    if (!Array.isArray(content)) {
+        return '';
+    }
+
+    return content
+        .filter((part: any) => part?.type === 'text')
+        .map((part: any) => part.text)
+        .join('\n');
+}
+
+/**
+  * Reduce a history to plain user/assistant text messages
+  *
+  * Tool messages are dropped and assistant steps with no text are skipped,
+  * so the result can be sent to a model without tool definitions.
+  */
+export function toTextMessages(messages: Array<ModelMessage | { role: string; content: any }>): Array<{ role: 'user' | 'assistant'; content: string }> {
+    return messages
+        .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+        .map(msg => ({ role: msg.role as 'user' | 'assistant', content: getMessageText(msg) }))
+        .filter(msg => msg.content.trim() !== '');
+}
+
+/**
+  * Collect http(s) URLs from a tool input or output (e.g. documentation links)
+  */
+export function collectSourceUrls(value: unknown, urls: Set<string> = new Set()): string[] {
+    if (typeof value === 'string') {
+        if (/^https?:\/\/\S+$/.test(value.trim())) {
+            urls.add(value.trim());
+        }
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectSourceUrls(item, urls));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(item => collectSourceUrls(item, urls));
+    }
+
+    return [...urls];
+}
+
+/**
+  * Unwrap a stored tool result output ({ type: 'json' | 'text', value })
+  */
+export function unwrapToolOutput(output: any): unknown {
+    if (output && typeof output === 'object' && 'type' in output && 'value' in output) {
+        return output.value;
+    }
+    return output;
+}
+
+/**
+  * Pair up the tool calls and tool results found in a list of messages
+  *
+  * @returns Sources in call order; calls without a result have output undefined
+  */
+export function extractSources(messages: Array<ModelMessage | { role: string; content: any }>): MessageSource[] {
+    const sources = new Map<string, MessageSource>();
+
+    for (const msg of messages) {
+        if (!Array.isArray(msg.content)) {
+            continue;
+        }
+
+        for (const part of msg.content as any[]) {
+            if (part?.type === 'tool-call') {
+                sources.set(part.toolCallId, {
+                    toolCallId: part.toolCallId,
+                    toolName: part.toolName,
+                    input: part.input,
+                    output: undefined,
+                    urls: [],
+                });
+            } else if (part?.type === 'tool-result') {
+                const source = sources.get(part.toolCallId) || {
+                    toolCallId: part.toolCallId,
+                    toolName: part.toolName,
+                    input: undefined,
+                    output: undefined,
+                    urls: [],
+                };
+                source.output = unwrapToolOutput(part.output);
+                sources.set(part.toolCallId, source);
+            }
+        }
+    }
+
+    return [...sources.values()].map(source => ({
+        ...source,
+        urls: collectSourceUrls([source.input, source.output]),
+    }));
+}
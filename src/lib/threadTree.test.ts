@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    chainMessages,
+    getLatestLeaf,
+    getMessagePath,
+    getTurnEnd,
+    getVersions,
+    mergeMessages,
+    readThreadTree,
+} from './threadTree';
+import type { ThreadMessage } from './types';
+
+const message = (id: string, parentId: string | null, role: 'user' | 'assistant' | 'tool' = 'user'): ThreadMessage =>
+    ({ id, parentId, role, content: id }) as ThreadMessage;
+
+const ids = (messages: ThreadMessage[]) => messages.map(msg => msg.id);
+
+// u1 is answered with a tool call (a1 → t1 → a1s), then regenerated (a1b);
+// u2 follows the first answer and was edited into u2b, each with its own reply
+const tree = [
+    message('u1', null),
+    message('a1', 'u1', 'assistant'),
+    message('t1', 'a1', 'tool'),
+    message('a1s', 't1', 'assistant'),
+    message('u2', 'a1s'),
+    message('a2', 'u2', 'assistant'),
+    message('a1b', 'u1', 'assistant'),
+    message('u2b', 'a1s'),
+    message('a2b', 'u2b', 'assistant'),
+];
+const byId = (id: string) => tree.find(msg => msg.id === id)!;
+
+describe('readThreadTree', () => {
+    it('chains legacy flat threads by position and drops system messages', () => {
+        const { messages, activeMessageId } = readThreadTree({
+            messages: [{ role: 'system', content: 'prompt' }, { role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }],
+        });
+
+        expect(messages.map(msg => [msg.id, msg.parentId])).toEqual([['legacy-0', null], ['legacy-1', 'legacy-0']]);
+        expect(activeMessageId).toBe('legacy-1');
+    });
+
+    it('keeps a stored activeMessageId and falls back to the last message for unknown ones', () => {
+        expect(readThreadTree({ messages: tree, activeMessageId: 'a2' }).activeMessageId).toBe('a2');
+        expect(readThreadTree({ messages: tree, activeMessageId: 'gone' }).activeMessageId).toBe('a2b');
+        expect(readThreadTree(null)).toEqual({ messages: [], activeMessageId: null });
+    });
+});
+
+describe('branching', () => {
+    it('lists a regenerated reply as a version of the first answer', () => {
+        expect(ids(getVersions(tree, byId('a1b')))).toEqual(['a1', 'a1b']);
+        expect(ids(getMessagePath(tree, 'a1b'))).toEqual(['u1', 'a1b']);
+    });
+
+    it('lists an edited user message as a version of the original', () => {
+        expect(ids(getVersions(tree, byId('u2b')))).toEqual(['u2', 'u2b']);
+        expect(ids(getMessagePath(tree, 'a2b'))).toEqual(['u1', 'a1', 't1', 'a1s', 'u2b', 'a2b']);
+    });
+
+    it('opens an older version where its branch was last continued', () => {
+        expect(getLatestLeaf(tree, 'u2')).toBe('a2');
+        expect(getLatestLeaf(tree, 'a1')).toBe('a2b');
+        expect(getLatestLeaf(tree, 'a1b')).toBe('a1b');
+    });
+
+    it('forks at a user message with its whole (newest) reply', () => {
+        expect(getTurnEnd(tree, 'u2')).toBe('a2');
+        expect(getTurnEnd(tree, 'u1')).toBe('a1b');
+        expect(getTurnEnd(tree, 'a1')).toBe('a1s');
+        expect(ids(getMessagePath(tree, getTurnEnd(tree, 'u2')))).toEqual(['u1', 'a1', 't1', 'a1s', 'u2', 'a2']);
+    });
+
+    it('chains new messages after a parent', () => {
+        const chained = chainMessages([{ role: 'assistant', content: 'a' }, { role: 'assistant', content: 'b' }], 'u2', 'first');
+
+        expect(chained[0]).toMatchObject({ id: 'first', parentId: 'u2', content: 'a' });
+        expect(chained[1].parentId).toBe('first');
+        expect(chained[1].id).not.toBe('first');
+    });
+});
+
+describe('mergeMessages', () => {
+    it('keeps branches saved by a reply that finished first', () => {
+        // Both requests started from [u1, a1]; the other one saved its edit of u1 first
+        const stored = [message('u1', null), message('a1', 'u1', 'assistant'), message('u1b', null), message('a1b', 'u1b', 'assistant')];
+        const added = [message('a1c', 'u1', 'assistant')];
+
+        expect(mergeMessages(stored, added).map(msg => msg.id)).toEqual(['u1', 'a1', 'u1b', 'a1b', 'a1c']);
+    });
+
+    it('does not add messages twice', () => {
+        const stored = [message('u1', null), message('a1', 'u1', 'assistant')];
+
+        expect(mergeMessages(stored, [message('a1', 'u1', 'assistant'), message('u2', 'a1')]).map(msg => msg.id)).toEqual(['u1', 'a1', 'u2']);
+    });
+
+    it('keeps the ids given to legacy flat threads', () => {
+        const stored = readThreadTree({ messages: [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }] }).messages;
+
+        expect(mergeMessages(stored, [message('u2', 'legacy-1')]).map(msg => msg.id)).toEqual(['legacy-0', 'legacy-1', 'u2']);
+    });
+});
@@ -0,0 +1,161 @@
+/**
+  * Thread Message Tree
+  *
+  * Threads keep every version of a conversation: each stored message has an id
+  * and the id of the message it follows, so editing a user message or
+  * regenerating a reply adds a sibling branch instead of overwriting history.
+  * - The conversation shown (and sent to the model) is the path from the first
+  *   message to the thread's activeMessageId
+  * - A reply is the chain of assistant/tool messages after a user message; its
+  *   first message is the one that gets siblings when the reply is regenerated
+  * - Threads saved before messages had ids get ids by position, as a single branch
+  */
+
+import type { ModelMessage } from 'ai';
+import { nanoid } from 'nanoid';
+
+import type { ThreadMessage } from './types';
+
+export interface ThreadTree {
+    messages: ThreadMessage[];
+    // Last message of the branch being shown; null for an empty thread
+    activeMessageId: string | null;
+}
+
+/**
+  * Read the message tree of a stored thread (threads.thread)
+  *
+  * System messages are dropped (they are runtime-only) and messages without ids
+  * (threads from before branching) are chained in order.
+  */
+export function readThreadTree(content: unknown): ThreadTree {
+    const stored = content && typeof content === 'object' ? content as { messages?: unknown; activeMessageId?: unknown } : {};
+    const rawMessages: any[] = Array.isArray(stored.messages) ? stored.messages : [];
+
+    let previousId: string | null = null;
+    const messages = rawMessages
+        .filter(msg => msg && msg.role !== 'system')
+        .map((msg, index): ThreadMessage => {
+            const message = typeof msg.id === 'string'
+                ? { ...msg, parentId: msg.parentId ?? null }
+                : { ...msg, id: `legacy-${index}`, parentId: previousId };
+            previousId = message.id;
+            return message;
+        });
+
+    const activeMessageId = typeof stored.activeMessageId === 'string' && messages.some(msg => msg.id === stored.activeMessageId)
+        ? stored.activeMessageId
+        : messages.at(-1)?.id ?? null;
+
+    return { messages, activeMessageId };
+}
+
+/**
+  * Add messages to a stored list, skipping the ones it already has (by id)
+  */
+export function mergeMessages(messages: ThreadMessage[], added: ThreadMessage[]): ThreadMessage[] {
+    const ids = new Set(messages.map(msg => msg.id));
+    return [...messages, ...added.filter(msg => !ids.has(msg.id))];
+}
+
+/**
+  * Get a message
+  */
+export function findMessage(messages: ThreadMessage[], id: string): ThreadMessage | undefined {
+    return messages.find(msg => msg.id === id);
+}
+
+/**
+  * Messages from the first one down to a message, in order
+  */
+export function getMessagePath(messages: ThreadMessage[], id: string | null): ThreadMessage[] {
+    const byId = new Map(messages.map(msg => [msg.id, msg]));
+    const path: ThreadMessage[] = [];
+    const seen = new Set<string>();
+
+    let current = id ? byId.get(id) : undefined;
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        path.unshift(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    return path;
+}
+
+/**
+  * Messages that follow a message (null: first messages), oldest first
+  */
+export function getChildren(messages: ThreadMessage[], parentId: string | null): ThreadMessage[] {
+    return messages.filter(msg => msg.parentId === parentId);
+}
+
+/**
+  * Versions of a message: the message and its siblings of the same kind, oldest first
+  *
+  * Versions of a user message are its edits; versions of a reply's first message
+  * are the regenerations of that reply.
+  */
+export function getVersions(messages: ThreadMessage[], message: ThreadMessage): ThreadMessage[] {
+    const isUser = message.role === 'user';
+    return getChildren(messages, message.parentId).filter(msg => (msg.role === 'user') === isUser);
+}
+
+/**
+  * Follow the newest children from a message down to the end of its branch
+  *
+  * Used when switching versions: the branch opens where it was last continued.
+  */
+export function getLatestLeaf(messages: ThreadMessage[], id: string): string {
+    let leafId = id;
+    const seen = new Set<string>();
+
+    while (!seen.has(leafId)) {
+        seen.add(leafId);
+        const next = getChildren(messages, leafId).at(-1);
+        if (!next) break;
+        leafId = next.id;
+    }
+
+    return leafId;
+}
+
+/**
+  * The last message of the turn a message belongs to (the end of the reply to a
+  * user message, following the newest steps)
+  */
+export function getTurnEnd(messages: ThreadMessage[], id: string): string {
+    let endId = id;
+
+    while (true) {
+        const next = getChildren(messages, endId).filter(msg => msg.role !== 'user').at(-1);
+        if (!next) break;
+        endId = next.id;
+    }
+
+    return endId;
+}
+
+/**
+  * Give new messages ids and chain them after a parent
+  *
+  * @param parentId - Message the first new message follows (null: a first message)
+  * @param firstId - Id for the first new message (e.g. announced to the client before saving)
+  */
+export function chainMessages(newMessages: ModelMessage[], parentId: string | null, firstId: string = nanoid()): ThreadMessage[] {
+    let previousId = parentId;
+
+    return newMessages.map((msg, index) => {
+        const id = index === 0 ? firstId : nanoid();
+        const message = { ...msg, id, parentId: previousId } as ThreadMessage;
+        previousId = id;
+        return message;
+    });
+}
+
+/**
+  * Strip tree fields so messages can be sent to a model
+  */
+export function toModelMessages(messages: ThreadMessage[]): ModelMessage[] {
+    return messages.map(({ id, parentId, ...msg }) => msg as ModelMessage);
+}
@@ -0,0 +1,55 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+import { checkStackCompatibility, relationKindLabels, type ProductRelation } from '../productRelations';
+
+/**
+ * Check Stack Compatibility Tool
+ *
+ * Checks a proposed stack against the curated product relation graph
+ * (see ../productRelations.ts): conflicts, unmet requirements, overlapping
+ * choices and known integrations between the products.
+ */
+const checkStackCompatibilityTool = tool({
+    description: 'Check a proposed tech stack against our curated compatibility graph before recommending it. Pass the product names you plan to recommend. Returns conflicts (products known not to work together), missing requirements (a product needs something not in the stack), overlaps (two products covering the same need) and known integrations, each with notes. Products the graph does not know are listed as unknown; judge those from documentation instead.',
+    inputSchema: z.object({
+        products: z.array(z.string().min(1)).min(2).max(30).describe('Names of the products in the proposed stack, as returned by the catalog tools (e.g. ["Next.js", "Supabase", "Vercel"])'),
+    }),
+    execute: async ({ products }: { products: string[] }) => {
+        try {
+            const check = await checkStackCompatibility(products);
+            const describe = ({ from, to, kind, notes }: ProductRelation) => ({
+                relation: `${from.name} ${relationKindLabels[kind]} ${to.name}`,
+                notes,
+            });
+
+            const problems = check.conflicts.length + check.missingRequirements.length;
+
+            return {
+                message: problems === 0
+                    ? `No known compatibility problems among ${check.products.length} product(s)`
+                    : `Found ${problems} compatibility problem(s)`,
+                result: {
+                    success: true,
+                    compatible: check.compatible,
+                    products: check.products,
+                    unknown: check.unknown,
+                    conflicts: check.conflicts.map(describe),
+                    missingRequirements: check.missingRequirements.map(describe),
+                    overlaps: check.overlaps.map(describe),
+                    integrations: check.integrations.map(describe),
+                },
+            };
+        } catch (error) {
+            return {
+                message: 'Compatibility check failed',
+                result: {
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                },
+            };
+        }
+    },
+});
+
+export default checkStackCompatibilityTool;
@@ -0,0 +1,66 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+import { compareStacks } from '../comparison';
+import { stackLayers } from '../stackRecommendation';
+import type { StackLayer } from '../types';
+
+/**
+ * Compare Stacks Tool
+ *
+ * Compares two or three alternatives side by side from the catalog (see
+ * ../comparison.ts). The chat renders the returned table and lets the user keep
+ * one option in the thread's stack.
+ */
+const compareStacksTool = tool({
+    description: 'Compare two or three alternatives side by side: single products (e.g. Supabase vs Firebase) or whole stacks (e.g. Vercel + Neon vs Railway). Pulls the catalog entries, pricing tiers, product relations and cached documentation and returns a table of features, monthly cost, lock-in, learning curve and integration fit with the rest of the stack. The table is shown to the user with a button to keep each option, so do not repeat it; summarize the trade-offs and recommend one.',
+    inputSchema: z.object({
+        options: z.array(z.object({
+            label: z.string().max(80).optional().describe('Short name for the option (default: the product names joined with " + ")'),
+            products: z.array(z.string().min(1)).min(1).max(10).describe('Names of the products in this option, as returned by the catalog tools'),
+        })).min(2).max(3).describe('The alternatives to compare'),
+        context: z.array(z.string().min(1)).max(30).optional().default([]).describe('Rest of the stack the chosen option has to fit into (e.g. ["Next.js", "Stripe"])'),
+        layer: z.enum(stackLayers).optional().describe('Layer being compared (e.g. "database"), used for products whose catalog entry does not tell'),
+        usage: z.object({
+            mau: z.number().min(0).optional().describe('Monthly active users (default: 1,000)'),
+            storageGb: z.number().min(0).optional().describe('Data stored, in GB'),
+            requestsPerMonth: z.number().min(0).optional().describe('API/function requests per month'),
+        }).optional().default({}).describe('Usage to price the options at'),
+    }),
+    execute: async ({ options, context = [], layer, usage = {} }: {
+        options: Array<{ label?: string; products: string[] }>;
+        context?: string[];
+        layer?: StackLayer;
+        usage?: { mau?: number; storageGb?: number; requestsPerMonth?: number };
+    }) => {
+        try {
+            const comparison = await compareStacks(options, {
+                context,
+                layer,
+                usage: {
+                    mau: usage.mau,
+                    storage_gb: usage.storageGb,
+                    requests: usage.requestsPerMonth,
+                },
+            });
+
+            return {
+                message: `Compared ${comparison.options.map(option => option.label).join(' vs ')}`,
+                result: {
+                    success: true,
+                    ...comparison,
+                },
+            };
+        } catch (error) {
+            return {
+                message: 'Comparison failed',
+                result: {
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                },
+            };
+        }
+    },
+});
+
+export default compareStacksTool;
@@ -0,0 +1,54 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+import { estimateStackCost } from '../pricing';
+
+/**
+ * Estimate Stack Cost Tool
+ *
+ * Prices a stack from the catalog's pricing tiers (see ../pricing.ts) for the
+ * given usage: the cheapest tier that fits each service and the monthly cost
+ * per billing dimension.
+ */
+const estimateStackCostTool = tool({
+    description: 'Estimate the monthly cost of a tech stack from our catalog pricing data (free-tier limits, plan prices and metered rates). Pass the product names and the expected usage; usage you leave out is derived from the monthly active users and listed as assumptions. Returns a per-service breakdown with the cheapest plan that fits, whether it stays on a free tier, and the total. Pricing data is entered by admins and starts empty, so many services may be listed as unpriced; estimate those separately and say so.',
+    inputSchema: z.object({
+        stack: z.array(z.string().min(1)).min(1).max(30).describe('Names of the products in the stack, as returned by the catalog tools (e.g. ["Vercel", "Supabase", "Resend"])'),
+        usage: z.object({
+            mau: z.number().min(0).optional().describe('Monthly active users (default: 1,000)'),
+            storageGb: z.number().min(0).optional().describe('Data stored, in GB'),
+            requestsPerMonth: z.number().min(0).optional().describe('API/function requests per month'),
+            bandwidthGb: z.number().min(0).optional().describe('Data transferred per month, in GB'),
+            computeHours: z.number().min(0).optional().describe('Server/instance hours per month (730 = one always-on instance)'),
+        }).optional().default({}).describe('Usage assumptions for the month'),
+    }),
+    execute: async ({ stack, usage = {} }: { stack: string[]; usage?: { mau?: number; storageGb?: number; requestsPerMonth?: number; bandwidthGb?: number; computeHours?: number } }) => {
+        try {
+            const estimate = await estimateStackCost(stack, {
+                mau: usage.mau,
+                storage_gb: usage.storageGb,
+                requests: usage.requestsPerMonth,
+                bandwidth_gb: usage.bandwidthGb,
+                compute_hours: usage.computeHours,
+            });
+
+            return {
+                message: `Estimated $${estimate.totalMonthlyCost.toFixed(2)}/month for ${estimate.services.length} priced service(s)`,
+                result: {
+                    success: true,
+                    ...estimate,
+                },
+            };
+        } catch (error) {
+            return {
+                message: 'Cost estimate failed',
+                result: {
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                },
+            };
+        }
+    },
+});
+
+export default estimateStackCostTool;
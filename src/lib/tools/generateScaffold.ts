@@ -0,0 +1,50 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+import { listScaffoldTree, scaffoldStack } from '../scaffold';
+
+/**
+ * Generate Scaffold Tool
+ *
+ * Builds a starter project for the agreed stack (see ../scaffold) and returns
+ * its file tree plus a download link for the zip served by /api/scaffold.
+ */
+const generateScaffoldTool = tool({
+    description: 'Generate a downloadable starter project for the agreed tech stack: package.json with each service\'s packages and scripts, .env.example with the keys each service needs, docker-compose.yml for services that run locally (databases, caches, storage), config files and a README with setup steps. Use it once the user has settled on a stack and wants to start building. Returns the file tree, a download link to share with the user as a markdown link, and the services without a template (tell the user to set those up by hand).',
+    inputSchema: z.object({
+        stack: z.array(z.string().min(1)).min(1).max(30).describe('Names of the products in the stack, as returned by the catalog tools (e.g. ["Next.js", "Supabase", "Stripe"])'),
+        projectName: z.string().max(80).optional().describe('Name for the project folder and package (default: "my-stack-app")'),
+    }),
+    execute: async ({ stack, projectName }: { stack: string[]; projectName?: string }) => {
+        try {
+            const scaffold = await scaffoldStack(stack, { projectName });
+            const params = new URLSearchParams(stack.map(name => ['stack', name]));
+            params.set('name', scaffold.projectName);
+
+            return {
+                message: `Generated ${scaffold.projectName} with ${Object.keys(scaffold.files).length} files (${scaffold.matched.length} of ${stack.length} services templated)`,
+                result: {
+                    success: true,
+                    projectName: scaffold.projectName,
+                    downloadUrl: `/api/scaffold?${params}`,
+                    tree: listScaffoldTree(scaffold),
+                    matched: scaffold.matched,
+                    unmatched: scaffold.unmatched,
+                    env: scaffold.env,
+                    services: scaffold.services,
+                    warnings: scaffold.warnings,
+                },
+            };
+        } catch (error) {
+            return {
+                message: 'Scaffold generation failed',
+                result: {
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                },
+            };
+        }
+    },
+});
+
+export default generateScaffoldTool;
@@ -1,15 +1,14 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import Exa from 'exa-js';
 
-import 'dotenv/config'
-
-const exa = new Exa(process.env.EXA_SEARCH_API_KEY);
+import { getDocumentation } from '../documentation';
 
 /**
  * Get Page Content Tool
  *
- * Fetches the content of one or more URLs using Exa's getContents API.
+ * Fetches the content of one or more URLs through the documentation cache
+ * (see ../documentation.ts): cached pages are reused across threads, others are
+ * fetched with Exa or, without an Exa key, over plain HTTP.
  * Useful for retrieving documentation pages from URLs in the database.
  */
 const getPageContentTool = tool({
@@ -40,31 +39,35 @@ const getPageContentTool = tool({
                 };
             }
 
-            if (!import.meta.env?.EXASEARCH_API_KEY) {
-                const msg = 'Error API KEY EXASEARCH_API_KEY not found in ENV'
-                console.error(msg)
-                return { status: 'error', message: msg}
-            }
-
-            const searchResult = await exa.getContents(urls, {
-                apiKey: process.env.EXA_SEARCH_API_KEY || import.meta.env.EXA_SEARCH_API_KEY || '',
-                text: includeText ? true : undefined,
-            });
+            const { pages, errors } = await getDocumentation(urls);
 
-            const results = searchResult.results.map((result: any) => ({
-                url: result.url,
-                title: result.title,
-                text: result.text,
-                author: result.author,
-                publishedDate: result.publishedDate,
+            const results = pages.map(page => ({
+                url: page.url,
+                title: page.title,
+                text: includeText ? page.text : undefined,
+                fetchedAt: page.fetchedAt,
+                cached: page.cached,
+                stale: page.stale,
             }));
 
+            if (results.length === 0) {
+                return {
+                    message: 'Failed to fetch page content',
+                    result: {
+                        success: false,
+                        error: errors.map(({ url, error }) => `${url}: ${error}`).join('; '),
+                        errors,
+                    }
+                };
+            }
+
             return {
                 message: `Successfully fetched content from ${results.length} URL(s)`,
                 result: {
                     success: true,
                     count: results.length,
                     pages: results,
+                    errors,
                 }
             };
         } catch (error) {
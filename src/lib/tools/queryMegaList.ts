@@ -1,20 +1,19 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { db } from '../../db/initialize';
-import { megaListTable } from '../../db/schema';
-import { like, or, eq } from 'drizzle-orm';
+import { searchMegaList } from '../catalogSearch';
 
 /**
  * Query Mega List Tool
  *
- * Searches the mega_list database table for technology categories and types.
- * Returns high-level categories of technologies available.
+ * Searches the mega_list database table for technology categories and types (ranked full-text and fuzzy search, see ../catalogSearch.ts).
+ * Returns high-level categories of technologies available, with a relevance score,
+ * joined with the relational catalog (provider, description, documentation, tags) in the same call.
  */
 const queryMegaListTool = tool({
-    description: 'Query the mega_list database to browse technology categories and types. Use this to explore what types of technologies are available (e.g., databases, cloud providers, frameworks). Returns name, type, and subtype information.',
+    description: 'Query the mega_list database to browse technology categories and types. Use this to explore what types of technologies are available (e.g., databases, cloud providers, frameworks). Matching tolerates typos. Results are ordered by relevance. Returns name, type, subtype, a relevance score, and the linked catalog product (id, provider, category, description, documentation URL, and tags such as "Free tier", "Open source" or "EU region").',
     inputSchema: z.object({
         searchTerm: z.string().optional().describe('Search term to find technology categories (searches in name, type, and subtype). Leave empty to get all categories.'),
-        type: z.string().optional().describe('Filter by specific type (e.g., "database", "cloud", "framework")'),
+        type: z.string().optional().describe('Only return entries whose type contains this value (e.g., "database", "cloud", "framework")'),
         limit: z.number().optional().default(50).describe('Maximum number of results to return (default: 50, max: 200)')
     }),
     execute: async ({ searchTerm, type, limit = 50 }: { searchTerm?: string; type?: string; limit?: number }) => {
@@ -22,36 +21,7 @@ const queryMegaListTool = tool({
             // Limit max results to 200
             const maxResults = Math.min(limit, 200);
 
-            let query = db.select().from(megaListTable);
-
-            // Build where conditions
-            const conditions = [];
-
-            if (searchTerm) {
-                conditions.push(
-                    or(
-                        like(megaListTable.name, `%${searchTerm}%`),
-                        like(megaListTable.type, `%${searchTerm}%`),
-                        like(megaListTable.subtype, `%${searchTerm}%`)
-                    )
-                );
-            }
-
-            if (type) {
-                conditions.push(like(megaListTable.type, `%${type}%`));
-            }
-
-            // Apply conditions if any
-            if (conditions.length > 0) {
-                query = query.where(
-                    conditions.length === 1
-                        ? conditions[0]
-                        : or(...conditions)
-                ) as any;
-            }
-
-            // Execute query with limit
-            const results = await query.limit(maxResults);
+            const results = await searchMegaList({ searchTerm, type, limit: maxResults });
 
             return {
                 message: `Found ${results.length} technology category/categories`,
@@ -62,6 +32,14 @@ const queryMegaListTool = tool({
                         name: item.name,
                         type: item.type,
                         subtype: item.subtype,
+                        score: item.score,
+                        productId: item.product?.id ?? null,
+                        provider: item.product?.provider ?? null,
+                        category: item.product?.category ?? null,
+                        description: item.product?.description ?? null,
+                        keyFeature: item.product?.keyFeature ?? null,
+                        documentationUrl: item.product?.documentationUrl ?? null,
+                        tags: item.product?.tags ?? [],
                     }))
                 }
             };
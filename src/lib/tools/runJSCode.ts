@@ -0,0 +1,45 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+import { runInSandbox } from '../sandbox';
+
+/**
+ * Run JS Code Tool
+ *
+ * Runs model-written JavaScript in the sandbox (see ../sandbox.ts): an isolated
+ * worker and vm context with CPU-time and memory limits and no access to
+ * process, fetch, require or the file system. Console output is captured.
+ */
+const runJSCodeTool = tool({
+    description: 'Run JavaScript in an isolated sandbox for cost modeling and quick computations. Only standard JavaScript built-ins are available (no network, file system, modules or timers). The value of the last expression (or a top-level return) is the result; console.log output is captured.',
+    inputSchema: z.object({
+        code: z.string().describe('The JavaScript code to run'),
+    }),
+    execute: async ({ code }: { code: string }) => {
+        const sandboxResult = await runInSandbox(code);
+
+        if (!sandboxResult.success) {
+            return {
+                message: 'JavaScript code failed',
+                result: {
+                    success: false,
+                    error: sandboxResult.error,
+                    logs: sandboxResult.logs,
+                    durationMs: sandboxResult.durationMs,
+                },
+            };
+        }
+
+        return {
+            message: 'JavaScript code executed',
+            result: {
+                success: true,
+                codeResult: sandboxResult.result,
+                logs: sandboxResult.logs,
+                durationMs: sandboxResult.durationMs,
+            },
+        };
+    },
+});
+
+export default runJSCodeTool;
@@ -1,36 +1,54 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import Exa from 'exa-js';
 
-import 'dotenv/config'
+import config from '../config';
+import { getSearchProvider } from '../search';
 
-const exa = new Exa(process.env.EXA_SEARCH_API_KEY);
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a date like 2025-01-31');
 
+/**
+ * Search Tool
+ *
+ * Searches the web with the configured search provider (Exa, SearXNG or mock,
+ * see ../search/), with optional domain and publication date filters.
+ */
 const searchTool = tool({
-    description: 'Search the web for information',
+    description: 'Search the web for information that is not in the catalog, e.g. recent releases, pricing changes, comparisons or known issues. Supports limiting results to (or excluding) domains and a publication date range. Returns the title, URL, a snippet and the publication date of each result; use getPageContent on a URL to read the full page.',
     inputSchema: z.object({
-        query: z.string().describe('The query to search for'),
+        query: z.string().min(1).describe('The query to search for'),
+        includeDomains: z.array(z.string()).optional().describe('Only return results from these domains, e.g. ["supabase.com", "github.com"]'),
+        excludeDomains: z.array(z.string()).optional().describe('Never return results from these domains'),
+        startPublishedDate: isoDate.optional().describe('Only results published on or after this date (YYYY-MM-DD)'),
+        endPublishedDate: isoDate.optional().describe('Only results published on or before this date (YYYY-MM-DD)'),
+        limit: z.number().optional().default(10).describe('Maximum number of results to return (default: 10, max: 25)'),
     }),
-    execute: async ({ query }: { query: string }) => {
-            if (!import.meta.env?.EXASEARCH_API_KEY) {
-                const msg = 'Error API KEY EXASEARCH_API_KEY not found in ENV'
-                console.error(msg)
-                return { status: 'error', message: msg}
-            }
+    execute: async ({ query, limit = 10, ...filters }: { query: string; includeDomains?: string[]; excludeDomains?: string[]; startPublishedDate?: string; endPublishedDate?: string; limit?: number }) => {
+        try {
+            const provider = getSearchProvider();
+            const results = await provider.search(query, { ...filters, limit: Math.min(limit, 25) });
 
-            const searchResult = await exa.getContents(
-                [query], {
-                    apiKey: process.env.EXASEARCH_API_KEY || import.meta.env.EXA_SEARCH_API_KEY || '',
-                    text: true
-                }
-              );
-              
-            const result = {
-                searchResult,
-            }
-    
-            return { message: 'Search completed', result };
-        },
+            return {
+                message: `Found ${results.length} result(s) for "${query}"`,
+                result: {
+                    success: true,
+                    provider: provider.name,
+                    count: results.length,
+                    results,
+                },
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`❌ Web search (${config.search.provider}) failed:`, message);
+
+            return {
+                message: 'Search failed',
+                result: {
+                    success: false,
+                    error: message,
+                },
+            };
+        }
+    },
 });
 
 export default searchTool;
@@ -0,0 +1,62 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+import { semanticSearchCatalog } from '../catalogEmbeddings';
+
+/**
+ * Semantic Search Catalog Tool
+ *
+ * Ranks company_info and mega_list rows by embedding similarity to a description
+ * of what the user needs (see ../catalogEmbeddings.ts), for needs phrased in
+ * different words than the catalog uses.
+ */
+const semanticSearchCatalogTool = tool({
+    description: 'Find catalog products (company_info) and technologies (mega_list) that fit a need described in plain words, e.g. "realtime multiplayer sync" or "send transactional emails". Ranks by meaning rather than keywords, so use it when queryCompanyInfo/queryMegaList keyword searches find little. Returns the best matches with a similarity score (0-1).',
+    inputSchema: z.object({
+        query: z.string().min(1).describe('Description of the capability or use case to find tools for'),
+        tables: z.array(z.enum(['company_info', 'mega_list'])).optional().describe('Catalog tables to search (default: both)'),
+        limit: z.number().optional().default(10).describe('Maximum number of results to return (default: 10, max: 50)'),
+    }),
+    execute: async ({ query, tables, limit = 10 }: { query: string; tables?: Array<'company_info' | 'mega_list'>; limit?: number }) => {
+        try {
+            const results = await semanticSearchCatalog(query, { tables, limit: Math.min(limit, 50) });
+
+            return {
+                message: `Found ${results.length} matching catalog entr${results.length === 1 ? 'y' : 'ies'}`,
+                result: {
+                    success: true,
+                    count: results.length,
+                    matches: results.map(({ table, score, entry }) => table === 'company_info'
+                        ? {
+                            table,
+                            score,
+                            name: entry.name,
+                            provider: entry.provider,
+                            subcategory: entry.subcategory,
+                            description: entry.description,
+                            keyFeature: entry.keyfeature,
+                            documentationUrl: entry.documentation,
+                        }
+                        : {
+                            table,
+                            score,
+                            name: entry.name,
+                            type: entry.type,
+                            subtype: entry.subtype,
+                        }
+                    ),
+                },
+            };
+        } catch (error) {
+            return {
+                message: 'Semantic search failed',
+                result: {
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                },
+            };
+        }
+    },
+});
+
+export default semanticSearchCatalogTool;
@@ -1,19 +1,21 @@
-import type { Tool } from 'ai';
+import type { ModelMessage, Tool } from 'ai';
 
+// A group of modes (see src/lib/modes.ts)
 interface Category {
     name: string;
     description: string;
     modes: Record<string, Mode>;
 }
 
+// How the assistant approaches a thread: an extra system prompt section and the tools it may call
 interface Mode {
     name: string;
     description: string;
     icon?: string;
-    prompt?: Promise<any>;
+    prompt?: string;
     tools?: Record<string, Tool>;
     show?: true | false;
-}    
+}
 
 // Legacy Tool interface for backward compatibility
 interface LegacyTool {
@@ -29,4 +31,123 @@ interface LegacyTool {
     execute: (params: any) => Promise<any>;
 }
 
-export type { Mode, Category, LegacyTool, Tool };
\ No newline at end of file
+// Layers a stack recommendation can be broken down into
+type StackLayer =
+    | 'frontend'
+    | 'backend'
+    | 'database'
+    | 'hosting'
+    | 'auth'
+    | 'storage'
+    | 'payments'
+    | 'ai'
+    | 'analytics'
+    | 'other';
+
+// Pointer back to the catalog row a stack entry was matched against
+interface CatalogReference {
+    table: 'company_info' | 'mega_list';
+    name: string;
+}
+
+// Monthly cost range in dollars
+interface CostEstimate {
+    min: number;
+    max: number;
+    notes?: string;
+}
+
+interface StackEntry {
+    layer: StackLayer;
+    name: string;
+    provider: string;
+    catalogRef: CatalogReference | null;
+    rationale: string;
+    estimatedMonthlyCost: CostEstimate;
+}
+
+// Structured form of the stack the assistant recommended in a thread
+interface StackRecommendation {
+    summary: string;
+    entries: StackEntry[];
+    totalEstimatedMonthlyCost: CostEstimate;
+    generatedAt: string;
+}
+
+// Stored thread message: an AI SDK model message with its place in the thread's
+// message tree, so a thread can hold edits and regenerations (see src/lib/threadTree.ts)
+type ThreadMessage = ModelMessage & {
+    id: string;
+    // Message it follows; null for a first message
+    parentId: string | null;
+};
+
+// Groups of catalog product tags (see src/lib/products.ts)
+type TagKind = 'pricing' | 'license' | 'hosting' | 'region';
+
+// Kinds of curated edges between products (see src/lib/productRelations.ts)
+type RelationKind = 'integrates_with' | 'alternative_to' | 'requires' | 'conflicts_with';
+
+// Usage a pricing tier is billed on (see src/lib/pricing.ts)
+type BillingDimension = 'mau' | 'storage_gb' | 'requests' | 'bandwidth_gb' | 'compute_hours';
+
+// Metered part of a pricing tier
+interface PricingRate {
+    dimension: BillingDimension;
+    // Units included in the tier's monthly price (the free-tier limit for free tiers)
+    included: number;
+    // Dollars per `per` units beyond the included ones; null when the tier cannot go beyond them
+    unitPrice: number | null;
+    per: number;
+}
+
+// Filters for web search (see src/lib/search/)
+interface SearchFilters {
+    // Only return results from these domains (subdomains included)
+    includeDomains?: string[];
+    excludeDomains?: string[];
+    // Publication date bounds as ISO dates (YYYY-MM-DD)
+    startPublishedDate?: string;
+    endPublishedDate?: string;
+    limit?: number;
+}
+
+// Web search result, the same shape for every search provider
+interface SearchResult {
+    url: string;
+    title: string;
+    snippet: string;
+    publishedDate: string | null;
+}
+
+interface SearchProvider {
+    name: string;
+    search: (query: string, filters: SearchFilters) => Promise<SearchResult[]>;
+    // Page text for URLs; pages the provider can't fetch are left out (optional)
+    getContents?: (urls: string[]) => Promise<Array<{ url: string; title: string; text: string }>>;
+}
+
+// What a user may do: admins can also manage the catalog
+type UserRole = 'user' | 'admin';
+
+// The signed-in user attached to Astro.locals by the auth middleware
+interface SessionUser {
+    id: string;
+    email: string;
+    name: string;
+    role: UserRole;
+}
+
+// Outcome of a sign-in attempt: signed in, waiting on the user (e.g. magic link sent), or failed
+type AuthResult =
+    | { status: 'authenticated'; user: SessionUser }
+    | { status: 'pending'; message: string; link?: string }
+    | { status: 'error'; error: string };
+
+// A pluggable sign-in method (see src/lib/auth/)
+interface AuthProvider {
+    name: string;
+    authenticate: (credentials: Record<string, any>, context: { origin: string }) => Promise<AuthResult>;
+}
+
+export type { Mode, Category, LegacyTool, Tool, StackLayer, CatalogReference, CostEstimate, StackEntry, StackRecommendation, ThreadMessage, TagKind, RelationKind, BillingDimension, PricingRate, SearchFilters, SearchResult, SearchProvider, UserRole, SessionUser, AuthResult, AuthProvider };
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { calculateCost } from './usage';
+
+// claude-sonnet-4.5 and gpt-5 prices per million tokens, from config.modelPricing
+const sonnet = { input: 3, output: 15, cached: 0.3 };
+const gpt5 = { input: 1.25, output: 10, cached: 0.125 };
+
+describe('calculateCost', () => {
+    it('bills Anthropic cache reads on top of inputTokens (reported separately)', () => {
+        const cost = calculateCost('anthropic', 'claude-sonnet-4.5', {
+            inputTokens: 1_000_000,
+            outputTokens: 1_000_000,
+            cachedInputTokens: 1_000_000,
+            totalTokens: 3_000_000,
+        });
+
+        expect(cost).toBeCloseTo(sonnet.input + sonnet.output + sonnet.cached);
+    });
+
+    it('bills the cached part of OpenAI inputTokens at the cached rate only', () => {
+        const cost = calculateCost('openai', 'gpt-5', {
+            inputTokens: 1_000_000,
+            outputTokens: 1_000_000,
+            cachedInputTokens: 400_000,
+            totalTokens: 2_000_000,
+        });
+
+        expect(cost).toBeCloseTo(0.6 * gpt5.input + gpt5.output + 0.4 * gpt5.cached);
+    });
+
+    it('treats Google and xAI inputTokens as including cached tokens', () => {
+        const usage = { inputTokens: 1_000_000, outputTokens: 0, cachedInputTokens: 1_000_000, totalTokens: 1_000_000 };
+
+        expect(calculateCost('google', 'gemini-2.5-pro', usage)).toBeCloseTo(0.31);
+        expect(calculateCost('xai', 'grok-4', usage)).toBeCloseTo(0.75);
+    });
+
+    it('bills all input at the full rate without cached tokens', () => {
+        const cost = calculateCost('openai', 'gpt-5', { inputTokens: 2_000_000, outputTokens: undefined, totalTokens: 2_000_000 });
+
+        expect(cost).toBeCloseTo(2 * gpt5.input);
+    });
+});
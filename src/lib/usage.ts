@@ -0,0 +1,182 @@
+/**
+  * Usage & Cost Accounting
+  *
+  * Converts token usage reported by the AI SDK into dollars using
+  * config.modelPricing, logs it per model call and adds it to the thread's
+  * running cost in a single transaction.
+  */
+
+import type { LanguageModelUsage } from 'ai';
+import { nanoid } from 'nanoid';
+import { and, desc, eq, gte, sql, sum } from 'drizzle-orm';
+
+import { db } from '../db/initialize';
+import { messageUsageTable, threadsTable } from '../db/schema';
+import config from './config';
+
+export type UsageKind = 'message' | 'title' | 'stack';
+
+export interface UsageRecord {
+    threadId: string;
+    email: string;
+    requestId: string;
+    kind: UsageKind;
+    provider: string;
+    model: string;
+    usage: LanguageModelUsage;
+    // Per-step usage for multi-step replies
+    steps?: LanguageModelUsage[];
+}
+
+/**
+  * Get the price table entry for a model
+  */
+export function getModelPricing(model: string) {
+    return config.modelPricing[model] || config.modelPricing.default;
+}
+
+// Providers whose reported inputTokens leave out the cached input tokens
+// (Anthropic reports cache reads separately; OpenAI, Google and xAI count them
+// in the prompt tokens)
+const cachedInputExcludedProviders = ['anthropic'];
+
+/**
+  * Calculate the dollar cost of a model call
+  *
+  * Cached input tokens are billed at the cached rate only: for providers that
+  * count them in inputTokens they are taken out of the full-rate input first.
+  *
+  * @param provider - Provider name as registered in providers.ts
+  * @param model - Model name as used in config.modelPricing
+  * @param usage - Token usage reported by the AI SDK
+  * @returns Cost in dollars
+  */
+export function calculateCost(provider: string, model: string, usage: LanguageModelUsage): number {
+    const pricing = getModelPricing(model);
+
+    const cachedTokens = usage.cachedInputTokens || 0;
+    const fullRateInputTokens = cachedInputExcludedProviders.includes(provider)
+        ? usage.inputTokens || 0
+        : Math.max(0, (usage.inputTokens || 0) - cachedTokens);
+
+    const inputCost = fullRateInputTokens * pricing.inputPerMillion;
+    const outputCost = (usage.outputTokens || 0) * pricing.outputPerMillion;
+    const cachedCost = cachedTokens * pricing.cachedInputPerMillion;
+
+    return (inputCost + outputCost + cachedCost) / 1_000_000;
+}
+
+/**
+  * Log a model call and add its cost to the thread
+  *
+  * The usage row and the thread cost increment are written in one transaction,
+  * and the increment is done in SQL so concurrent requests cannot lose updates.
+  *
+  * @returns The cost of the call in dollars
+  */
+export async function recordUsage({ threadId, email, requestId, kind, provider, model, usage, steps = [] }: UsageRecord): Promise<number> {
+    const cost = calculateCost(provider, model, usage);
+
+    await db.transaction(async (tx) => {
+        await tx.insert(messageUsageTable).values({
+            id: nanoid(),
+            threadId,
+            email,
+            requestId,
+            kind,
+            provider,
+            model,
+            inputTokens: usage.inputTokens || 0,
+            outputTokens: usage.outputTokens || 0,
+            cachedInputTokens: usage.cachedInputTokens || 0,
+            totalTokens: usage.totalTokens || 0,
+            steps: steps.map(step => ({
+                inputTokens: step.inputTokens || 0,
+                outputTokens: step.outputTokens || 0,
+            })),
+            cost: cost.toFixed(6),
+        });
+
+        await tx
+            .update(threadsTable)
+            .set({ cost: sql`${threadsTable.cost} + ${cost.toFixed(6)}` })
+            .where(eq(threadsTable.id, threadId));
+    });
+
+    return cost;
+}
+
+/**
+  * Get the first instant of the current calendar month (UTC)
+  */
+export function startOfMonth(date: Date = new Date()): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+  * Total spending for a user since a given date
+  *
+  * @returns Cost in dollars
+  */
+export async function getUserSpend(email: string, since: Date = startOfMonth()): Promise<number> {
+    const [{ total }] = await db
+        .select({ total: sum(messageUsageTable.cost) })
+        .from(messageUsageTable)
+        .where(and(eq(messageUsageTable.email, email), gte(messageUsageTable.createdAt, since)));
+
+    return Number(total || 0);
+}
+
+/**
+  * Spending summary for a user: this month, all time, per thread and the latest calls
+  */
+export async function getUsageSummary(email: string, { recentLimit = 20 }: { recentLimit?: number } = {}) {
+    const monthStart = startOfMonth();
+
+    const [monthSpend, allTimeSpend, byThread, recent] = await Promise.all([
+        getUserSpend(email, monthStart),
+        getUserSpend(email, new Date(0)),
+        db
+            .select({
+                threadId: messageUsageTable.threadId,
+                title: threadsTable.title,
+                cost: sum(messageUsageTable.cost),
+                totalTokens: sum(messageUsageTable.totalTokens),
+            })
+            .from(messageUsageTable)
+            .leftJoin(threadsTable, eq(messageUsageTable.threadId, threadsTable.id))
+            .where(and(eq(messageUsageTable.email, email), gte(messageUsageTable.createdAt, monthStart)))
+            .groupBy(messageUsageTable.threadId, threadsTable.title)
+            .orderBy(desc(sum(messageUsageTable.cost))),
+        db
+            .select({
+                id: messageUsageTable.id,
+                threadId: messageUsageTable.threadId,
+                kind: messageUsageTable.kind,
+                provider: messageUsageTable.provider,
+                model: messageUsageTable.model,
+                inputTokens: messageUsageTable.inputTokens,
+                outputTokens: messageUsageTable.outputTokens,
+                totalTokens: messageUsageTable.totalTokens,
+                cost: messageUsageTable.cost,
+                createdAt: messageUsageTable.createdAt,
+            })
+            .from(messageUsageTable)
+            .where(eq(messageUsageTable.email, email))
+            .orderBy(desc(messageUsageTable.createdAt))
+            .limit(recentLimit),
+    ]);
+
+    return {
+        monthStart: monthStart.toISOString(),
+        monthSpend,
+        allTimeSpend,
+        byThread: byThread.map(row => ({
+            threadId: row.threadId,
+            title: row.title,
+            cost: Number(row.cost || 0),
+            totalTokens: Number(row.totalTokens || 0),
+        })),
+        recent: recent.map(row => ({ ...row, cost: Number(row.cost) })),
+    };
+}
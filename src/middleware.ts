@@ -0,0 +1,49 @@
+/**
+  * Auth Middleware
+  *
+  * Resolves the session cookie to a user on every request and exposes it as
+  * `locals.user`. App and admin pages (/app/*, /admin/*) redirect to the login
+  * page when signed out, and admin pages answer 403 for non-admins;
+  * API routes check `locals.user` themselves and answer with 401/403.
+  */
+
+import { defineMiddleware } from 'astro:middleware';
+
+import config from './lib/config';
+import { validateSession, clearSessionCookie, isAdmin } from './lib/auth';
+
+export const onRequest = defineMiddleware(async (context, next) => {
+    context.locals.user = null;
+
+    // Prerendered pages have no request cookies
+    if (context.isPrerendered) {
+        return next();
+    }
+
+    const token = context.cookies.get(config.auth.sessionCookie)?.value;
+    if (token) {
+        try {
+            context.locals.user = await validateSession(token);
+        } catch (error) {
+            console.error('Error validating session:', error);
+        }
+
+        if (!context.locals.user) {
+            clearSessionCookie(context.cookies);
+        }
+    }
+
+    const isAppPage = context.url.pathname.startsWith('/app');
+    const isAdminPage = context.url.pathname.startsWith('/admin');
+
+    if ((isAppPage || isAdminPage) && !context.locals.user) {
+        const next = encodeURIComponent(context.url.pathname + context.url.search);
+        return context.redirect(`/login?next=${next}`);
+    }
+
+    if (isAdminPage && !isAdmin(context.locals.user)) {
+        return new Response('Admin access required', { status: 403 });
+    }
+
+    return next();
+});
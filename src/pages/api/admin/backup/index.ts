@@ -0,0 +1,54 @@
+import type { APIRoute } from 'astro';
+
+import { requireAdmin } from '../../../../lib/auth';
+import { exportSnapshot, listSnapshots } from '../../../../lib/backup';
+
+/**
+ * GET /api/admin/backup
+ *
+ * Lists the snapshot folders in backups/, oldest first. Admin only.
+ */
+export const GET: APIRoute = async ({ locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    return new Response(JSON.stringify({ snapshots: await listSnapshots() }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+    });
+};
+
+/**
+ * POST /api/admin/backup
+ *
+ * Exports threads, company_info and mega_list to a new backups/<timestamp>/ folder. Admin only.
+ * Needs a writable file system (local development or a self-hosted server).
+ */
+export const POST: APIRoute = async ({ locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const { snapshot, counts } = await exportSnapshot();
+
+        return new Response(JSON.stringify({ snapshot, counts }), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error exporting backup:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to export backup: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
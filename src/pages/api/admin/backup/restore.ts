@@ -0,0 +1,80 @@
+import type { APIRoute } from 'astro';
+
+import { requireAdmin } from '../../../../lib/auth';
+import { backupTableNames, listSnapshots, restoreSnapshot, type BackupTable } from '../../../../lib/backup';
+import { syncCatalogEmbeddings } from '../../../../lib/catalogEmbeddings';
+
+/**
+ * POST /api/admin/backup/restore
+ *
+ * Restores the database from a snapshot in backups/. Admin only.
+ * Body: { snapshot?: string, dryRun?: boolean, tables?: string[] }
+ * - snapshot defaults to the latest one
+ * - dryRun defaults to true: the diff is returned and nothing is written
+ * - rows are upserted by primary key; rows missing from the snapshot are kept
+ * - after restoring a catalog table, the catalog embeddings are synced
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    let body: { snapshot?: unknown; dryRun?: unknown; tables?: unknown } = {};
+    try {
+        body = await request.json();
+    } catch {
+        // An empty body means a dry run of the latest snapshot
+    }
+
+    const snapshots = await listSnapshots();
+    const snapshot = typeof body.snapshot === 'string' && body.snapshot ? body.snapshot : snapshots.at(-1);
+
+    if (!snapshot || !snapshots.includes(snapshot)) {
+        return new Response(
+            JSON.stringify({ error: snapshot ? `Unknown snapshot: ${snapshot}` : 'No snapshots found', snapshots }),
+            {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    const tables = body.tables ?? backupTableNames;
+    if (!Array.isArray(tables) || tables.some(table => !backupTableNames.includes(table))) {
+        return new Response(
+            JSON.stringify({ error: `tables must be an array of: ${backupTableNames.join(', ')}` }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const result = await restoreSnapshot(snapshot, {
+            dryRun: body.dryRun !== false,
+            tables: tables as BackupTable[],
+        });
+
+        if (!result.dryRun && tables.some(table => table !== 'threads')) {
+            await syncCatalogEmbeddings();
+        }
+
+        return new Response(JSON.stringify(result), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error restoring backup:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to restore backup: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
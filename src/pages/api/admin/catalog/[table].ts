@@ -0,0 +1,219 @@
+import type { APIRoute } from 'astro';
+
+import { requireAdmin } from '../../../../lib/auth';
+import {
+    catalogTables,
+    isCatalogTable,
+    listCatalogEntries,
+    getCatalogEntry,
+    createCatalogEntry,
+    updateCatalogEntry,
+    deleteCatalogEntry,
+    type CatalogResult,
+    type CatalogTable,
+} from '../../../../lib/catalog';
+
+/**
+ * Check admin access and the table name
+ *
+ * @returns The catalog table, or an error Response (401/403/404) to return as-is
+ */
+function checkCatalogRequest(locals: App.Locals, table: string | undefined): CatalogTable | Response {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    if (!isCatalogTable(table)) {
+        return new Response(
+            JSON.stringify({ error: `Unknown catalog table. Use one of: ${catalogTables.join(', ')}` }),
+            {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    return table;
+}
+
+/**
+ * Turn a create/update result into a response (400 invalid, 404 not found, 409 name taken)
+ */
+function catalogResultResponse(result: CatalogResult, successStatus: number) {
+    if (result.success) {
+        return new Response(JSON.stringify(result.entry), {
+            status: successStatus,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    const status = result.code === 'not_found' ? 404 : result.code === 'conflict' ? 409 : 400;
+
+    return new Response(
+        JSON.stringify({ error: result.errors.join('; '), errors: result.errors }),
+        {
+            status,
+            headers: { 'Content-Type': 'application/json' },
+        }
+    );
+}
+
+/**
+ * GET /api/admin/catalog/[table]?search=&page=1&pageSize=50
+ * GET /api/admin/catalog/[table]?name=...
+ *
+ * Lists the entries of company_info or mega_list, or returns one entry when ?name is given.
+ * Admin only.
+ */
+export const GET: APIRoute = async ({ params, url, locals }) => {
+    const table = checkCatalogRequest(locals, params.table);
+    if (table instanceof Response) {
+        return table;
+    }
+
+    try {
+        const name = url.searchParams.get('name');
+
+        if (name !== null) {
+            const entry = await getCatalogEntry(table, name);
+            return new Response(
+                JSON.stringify(entry || { error: `No entry named "${name}"` }),
+                {
+                    status: entry ? 200 : 404,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const list = await listCatalogEntries(table, {
+            search: url.searchParams.get('search') || '',
+            page: Number(url.searchParams.get('page')) || 1,
+            pageSize: Number(url.searchParams.get('pageSize')) || 50,
+        });
+
+        return new Response(JSON.stringify(list), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error listing catalog entries:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to list catalog entries' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * POST /api/admin/catalog/[table]
+ *
+ * Creates an entry. Returns 400 with the validation errors, or 409 if the name is taken.
+ * Admin only.
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+    const table = checkCatalogRequest(locals, params.table);
+    if (table instanceof Response) {
+        return table;
+    }
+
+    try {
+        const result = await createCatalogEntry(table, await request.json());
+        return catalogResultResponse(result, 201);
+    } catch (error) {
+        console.error('Error creating catalog entry:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to create catalog entry: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * PATCH /api/admin/catalog/[table]?name=...
+ *
+ * Updates the fields sent in the body; sending a new name renames the entry.
+ * Admin only.
+ */
+export const PATCH: APIRoute = async ({ params, url, request, locals }) => {
+    const table = checkCatalogRequest(locals, params.table);
+    if (table instanceof Response) {
+        return table;
+    }
+
+    const name = url.searchParams.get('name');
+    if (!name) {
+        return new Response(
+            JSON.stringify({ error: 'Entry name is required' }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const result = await updateCatalogEntry(table, name, await request.json());
+        return catalogResultResponse(result, 200);
+    } catch (error) {
+        console.error('Error updating catalog entry:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to update catalog entry: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * DELETE /api/admin/catalog/[table]?name=...
+ *
+ * Deletes an entry. Admin only.
+ */
+export const DELETE: APIRoute = async ({ params, url, locals }) => {
+    const table = checkCatalogRequest(locals, params.table);
+    if (table instanceof Response) {
+        return table;
+    }
+
+    const name = url.searchParams.get('name');
+    if (!name) {
+        return new Response(
+            JSON.stringify({ error: 'Entry name is required' }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const deleted = await deleteCatalogEntry(table, name);
+        return new Response(
+            JSON.stringify(deleted ? { success: true, name } : { error: `No entry named "${name}"` }),
+            {
+                status: deleted ? 200 : 404,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error deleting catalog entry:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to delete catalog entry' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -0,0 +1,79 @@
+import type { APIRoute } from 'astro';
+
+import { requireAdmin } from '../../../../../lib/auth';
+import { catalogTables, isCatalogTable, importCatalogEntries } from '../../../../../lib/catalog';
+
+/**
+ * Read a boolean query parameter: only "1" and "true" turn it on
+ */
+function isEnabled(value: string | null): boolean {
+    return ['1', 'true'].includes(value ?? '');
+}
+
+/**
+ * POST /api/admin/catalog/[table]/import?dryRun=1&fix=1
+ *
+ * Bulk-imports entries into company_info or mega_list. Admin only.
+ * Body: a JSON array of entries (the format of the JSON backups works as-is) or { entries: [...] }.
+ * Valid entries are upserted by name; invalid ones are skipped and returned in `errors`.
+ * Data quality issues found by the catalog linter are returned in `lint`; with ?fix=1 its
+ * proposed fixes (e.g. unwrapping "[https://... ]" URLs) are applied before validation.
+ * With ?dryRun=1 nothing is written. Both flags are off unless set to 1 or true.
+ */
+export const POST: APIRoute = async ({ params, url, request, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    const table = params.table;
+    if (!isCatalogTable(table)) {
+        return new Response(
+            JSON.stringify({ error: `Unknown catalog table. Use one of: ${catalogTables.join(', ')}` }),
+            {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    let rows: unknown;
+    try {
+        const body = await request.json();
+        rows = Array.isArray(body) ? body : body?.entries;
+    } catch {
+        rows = undefined;
+    }
+
+    if (!Array.isArray(rows)) {
+        return new Response(
+            JSON.stringify({ error: 'Body must be a JSON array of entries or { entries: [...] }' }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const dryRun = isEnabled(url.searchParams.get('dryRun'));
+        const fix = isEnabled(url.searchParams.get('fix'));
+        const result = await importCatalogEntries(table, rows, { dryRun, fix });
+
+        return new Response(JSON.stringify({ ...result, dryRun }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error importing catalog entries:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to import catalog entries: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
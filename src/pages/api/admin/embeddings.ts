@@ -0,0 +1,37 @@
+import type { APIRoute } from 'astro';
+
+import { requireAdmin } from '../../../lib/auth';
+import { syncCatalogEmbeddings } from '../../../lib/catalogEmbeddings';
+
+/**
+ * POST /api/admin/embeddings
+ *
+ * Re-embeds catalog rows whose text changed and removes embeddings of deleted rows. Admin only.
+ * For catalog changes made outside the admin API (scripts, SQL). Returns { embedded, removed }.
+ */
+export const POST: APIRoute = async ({ locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const result = await syncCatalogEmbeddings();
+
+        return new Response(JSON.stringify(result), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error syncing catalog embeddings:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to sync catalog embeddings: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -0,0 +1,125 @@
+import type { APIRoute } from 'astro';
+
+import { requireAdmin } from '../../../lib/auth';
+import { deletePricingTier, listPricingTiers, savePricingTier } from '../../../lib/pricing';
+
+/**
+ * GET /api/admin/pricing?product=
+ *
+ * Lists the pricing tiers (see src/lib/pricing.ts), or only one product's tiers
+ * when ?product= (a product id) is given. Admin only.
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const tiers = await listPricingTiers({ product: url.searchParams.get('product') || undefined });
+
+        return new Response(JSON.stringify({ tiers }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error listing pricing tiers:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to list pricing tiers' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * POST /api/admin/pricing
+ *
+ * Creates a pricing tier, or replaces the product's tier of the same name. Admin only.
+ * Body: { productId, name, monthlyPrice, rates: [{ dimension, included, unitPrice, per }], notes?, sourceUrl? }
+ * Returns 400 with the validation errors, or 404 if the product does not exist.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const result = await savePricingTier(await request.json());
+
+        if (!result.success) {
+            return new Response(
+                JSON.stringify({ error: result.errors.join('; '), errors: result.errors }),
+                {
+                    status: result.code === 'not_found' ? 404 : 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        return new Response(JSON.stringify(result.tier), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error saving pricing tier:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to save pricing tier: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * DELETE /api/admin/pricing?product=...&name=...
+ *
+ * Deletes a pricing tier. Admin only.
+ */
+export const DELETE: APIRoute = async ({ url, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    const productId = url.searchParams.get('product');
+    const name = url.searchParams.get('name');
+
+    if (!productId || !name) {
+        return new Response(
+            JSON.stringify({ error: 'product and name are required' }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const deleted = await deletePricingTier(productId, name);
+
+        return new Response(
+            JSON.stringify(deleted ? { success: true } : { error: `No tier named "${name}"` }),
+            {
+                status: deleted ? 200 : 404,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error deleting pricing tier:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to delete pricing tier' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -0,0 +1,107 @@
+import type { APIRoute } from 'astro';
+
+import { requireAdmin } from '../../../lib/auth';
+import { catalogTables, isCatalogTable } from '../../../lib/catalog';
+import { syncCatalogEmbeddings } from '../../../lib/catalogEmbeddings';
+import { catalogLintRules, fixCatalog, lintCatalog, type CatalogLintRule } from '../../../lib/catalogLint';
+
+/**
+ * GET /api/admin/quality?table=
+ *
+ * Data quality report for the catalog tables (see src/lib/catalogLint.ts). Admin only.
+ * ?table= limits the report to company_info or mega_list.
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    const table = url.searchParams.get('table');
+
+    try {
+        const report = await lintCatalog(isCatalogTable(table) ? [table] : catalogTables);
+
+        return new Response(JSON.stringify(report), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error linting catalog:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to lint catalog: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * POST /api/admin/quality
+ *
+ * Applies the linter's proposed fixes to the catalog. Admin only.
+ * Body: { rules?: string[], tables?: string[] } to limit which fixes are applied.
+ * The catalog embeddings are synced after fixes were applied.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    let body: { rules?: unknown; tables?: unknown } = {};
+    try {
+        body = await request.json();
+    } catch {
+        // An empty body applies every fix
+    }
+
+    const rules = body.rules ?? catalogLintRules;
+    const tables = body.tables ?? catalogTables;
+
+    if (!Array.isArray(rules) || rules.some(rule => !catalogLintRules.includes(rule))) {
+        return new Response(
+            JSON.stringify({ error: `rules must be an array of: ${catalogLintRules.join(', ')}` }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    if (!Array.isArray(tables) || !tables.every(isCatalogTable)) {
+        return new Response(
+            JSON.stringify({ error: `tables must be an array of: ${catalogTables.join(', ')}` }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const result = await fixCatalog({ rules: rules as CatalogLintRule[], tables });
+
+        if (result.fixed > 0) {
+            await syncCatalogEmbeddings();
+        }
+
+        return new Response(JSON.stringify(result), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error fixing catalog:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to fix catalog: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
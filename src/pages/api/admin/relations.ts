@@ -0,0 +1,132 @@
+import type { APIRoute } from 'astro';
+
+import { requireAdmin } from '../../../lib/auth';
+import {
+    deleteProductRelation,
+    listProductRelations,
+    relationKinds,
+    saveProductRelation,
+} from '../../../lib/productRelations';
+import type { RelationKind } from '../../../lib/types';
+
+/**
+ * GET /api/admin/relations?product=
+ *
+ * Lists the product relations (see src/lib/productRelations.ts), or only those
+ * touching one product when ?product= (a product id) is given. Admin only.
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const relations = await listProductRelations({ product: url.searchParams.get('product') || undefined });
+
+        return new Response(JSON.stringify({ relations }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error listing product relations:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to list product relations' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * POST /api/admin/relations
+ *
+ * Creates a relation, or replaces the notes of an existing one. Admin only.
+ * Body: { fromProductId, toProductId, kind, notes? }
+ * Returns 400 with the validation errors, or 404 if a product does not exist.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    try {
+        const result = await saveProductRelation(await request.json());
+
+        if (!result.success) {
+            return new Response(
+                JSON.stringify({ error: result.errors.join('; '), errors: result.errors }),
+                {
+                    status: result.code === 'not_found' ? 404 : 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        return new Response(JSON.stringify(result.relation), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        console.error('Error saving product relation:', error);
+        return new Response(
+            JSON.stringify({ error: `Failed to save product relation: ${error}` }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * DELETE /api/admin/relations?from=...&to=...&kind=...
+ *
+ * Deletes a relation. Admin only.
+ */
+export const DELETE: APIRoute = async ({ url, locals }) => {
+    const denied = requireAdmin(locals.user);
+    if (denied) {
+        return denied;
+    }
+
+    const fromProductId = url.searchParams.get('from');
+    const toProductId = url.searchParams.get('to');
+    const kind = url.searchParams.get('kind') as RelationKind | null;
+
+    if (!fromProductId || !toProductId || !kind || !relationKinds.includes(kind)) {
+        return new Response(
+            JSON.stringify({ error: `from, to and kind (one of: ${relationKinds.join(', ')}) are required` }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const deleted = await deleteProductRelation({ fromProductId, toProductId, kind });
+
+        return new Response(
+            JSON.stringify(deleted ? { success: true } : { error: 'No such relation' }),
+            {
+                status: deleted ? 200 : 404,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error deleting product relation:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to delete product relation' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -0,0 +1,71 @@
+import type { APIRoute } from 'astro';
+import { getAuthProvider, createSession, setSessionCookie } from '../../../lib/auth';
+
+/**
+ * POST /api/auth/login
+ *
+ * Signs a user in with one of the enabled auth providers.
+ * Body: { provider: 'password' | 'magic-link', ...credentials }
+ * Returns 200 with the user when signed in, 202 when a magic link was sent,
+ * 400 for an unknown provider and 401 for bad credentials.
+ */
+export const POST: APIRoute = async ({ request, cookies, url }) => {
+    try {
+        const { provider: providerName = 'password', ...credentials } = await request.json();
+
+        const provider = getAuthProvider(providerName);
+        if (!provider) {
+            return new Response(
+                JSON.stringify({ status: 'error', error: `Unknown auth provider: ${providerName}` }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const result = await provider.authenticate(credentials, { origin: url.origin });
+
+        if (result.status === 'error') {
+            return new Response(
+                JSON.stringify(result),
+                {
+                    status: 401,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        if (result.status === 'pending') {
+            return new Response(
+                JSON.stringify(result),
+                {
+                    status: 202,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const { token, expiresAt } = await createSession(result.user.id);
+        setSessionCookie(cookies, token, expiresAt);
+
+        return new Response(
+            JSON.stringify({ status: 'success', user: result.user }),
+            {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error signing in:', error);
+        return new Response(
+            JSON.stringify({ status: 'error', error: 'Failed to sign in' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -0,0 +1,37 @@
+import type { APIRoute } from 'astro';
+import config from '../../../lib/config';
+import { deleteSession, clearSessionCookie } from '../../../lib/auth';
+
+/**
+ * POST /api/auth/logout
+ *
+ * Deletes the current session and clears the session cookie.
+ * Plain form posts (from the app nav) are redirected to the login page.
+ */
+export const POST: APIRoute = async ({ request, cookies, redirect }) => {
+    const token = cookies.get(config.auth.sessionCookie)?.value;
+
+    if (token) {
+        try {
+            await deleteSession(token);
+        } catch (error) {
+            console.error('Error deleting session:', error);
+        }
+    }
+
+    clearSessionCookie(cookies);
+
+    if (request.headers.get('Content-Type')?.includes('application/x-www-form-urlencoded')) {
+        return redirect('/login');
+    }
+
+    return new Response(
+        JSON.stringify({ status: 'success' }),
+        {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        }
+    );
+};
+
+export const prerender = false;
@@ -0,0 +1,31 @@
+import type { APIRoute } from 'astro';
+import { verifyMagicLink, createSession, setSessionCookie } from '../../../lib/auth';
+
+/**
+ * GET /api/auth/magic-link?token=...
+ *
+ * Target of the emailed sign-in link. Exchanges the single-use token for a
+ * session and redirects into the app, or back to the login page if the link
+ * is invalid or expired.
+ */
+export const GET: APIRoute = async ({ url, cookies, redirect }) => {
+    const token = url.searchParams.get('token') || '';
+
+    try {
+        const user = await verifyMagicLink(token);
+
+        if (!user) {
+            return redirect('/login?error=expired');
+        }
+
+        const session = await createSession(user.id);
+        setSessionCookie(cookies, session.token, session.expiresAt);
+
+        return redirect('/app/chat/');
+    } catch (error) {
+        console.error('Error verifying magic link:', error);
+        return redirect('/login?error=failed');
+    }
+};
+
+export const prerender = false;
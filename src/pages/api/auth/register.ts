@@ -0,0 +1,59 @@
+import type { APIRoute } from 'astro';
+import { registerWithPassword, createSession, setSessionCookie, getAuthProvider } from '../../../lib/auth';
+
+/**
+ * POST /api/auth/register
+ *
+ * Creates an email/password account and signs the user in.
+ * Body: { email, password, name? }
+ * Returns 400 if the input is invalid or the email is already registered.
+ */
+export const POST: APIRoute = async ({ request, cookies }) => {
+    if (!getAuthProvider('password')) {
+        return new Response(
+            JSON.stringify({ status: 'error', error: 'Password sign-up is disabled' }),
+            {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const { email, password, name } = await request.json();
+
+        const result = await registerWithPassword(email, password, name);
+
+        if (result.status !== 'authenticated') {
+            return new Response(
+                JSON.stringify(result),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const { token, expiresAt } = await createSession(result.user.id);
+        setSessionCookie(cookies, token, expiresAt);
+
+        return new Response(
+            JSON.stringify({ status: 'success', user: result.user }),
+            {
+                status: 201,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error registering user:', error);
+        return new Response(
+            JSON.stringify({ status: 'error', error: 'Failed to register' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -2,14 +2,9 @@ import type { APIRoute } from 'astro';
 
 import { generateText, streamText, type LanguageModel, stepCountIs } from 'ai';
 
-// import { openai } from '@ai-sdk/openai';
-import { anthropic } from '@ai-sdk/anthropic';
-// import { google } from '@ai-sdk/google';
-// import { xai } from '@ai-sdk/xai';
-// import { vercel } from '@ai-sdk/vercel';
-
 import config from '../../../lib/config';
-// import { providers } from '../../../lib/models';
+import { getLanguageModel, resolveModelSelection, type ModelSelection } from '../../../lib/providers';
+import { getMode, getModeSystemPrompt, resolveModeKey } from '../../../lib/modes';
 
 import { marked } from 'marked';
 import { JSDOM } from 'jsdom';
@@ -23,46 +18,15 @@ import type { InferSelectModel, InferInsertModel } from 'drizzle-orm';
 import { threadsTable } from '../../../db/schema';
 // import extract from '../../../lib/extractPartsofMessage';
 import isValidEmail from '../../../lib/validateEmail';
+import { generateStackRecommendation } from '../../../lib/stackRecommendation';
+import { toTextMessages } from '../../../lib/threadMessages';
+import { chainMessages, findMessage, getMessagePath, mergeMessages, readThreadTree, toModelMessages, type ThreadTree } from '../../../lib/threadTree';
+import type { ThreadMessage } from '../../../lib/types';
+import { recordUsage, type UsageRecord } from '../../../lib/usage';
+import { getBudgetStatus, getBudgetErrorMessage, getBudgetHeaders, type BudgetStatus } from '../../../lib/budget';
+import { readComparison } from '../../../lib/comparison';
+import { chatStreamHeaders, describeToolCall, describeToolResult, encodeChatStreamEvent, type ChatStreamEvent } from '../../../lib/chatStream';
 
-// const provider_maps = {
-//     openai: [
-//         'openai',
-//         'chatgpt',
-//         'gpt',
-//         'copilot',
-//         'mscopilot',
-//         'microsoftcopilot',
-//         'ghcopilot',
-//         'githubcopilot',
-//     ],
-//     anthropic: [
-//         'anthropic',
-//         'claude',
-//     ],
-//     google: [
-//         'google',
-//         'gemini',
-//     ],
-//     xai: [
-//         'xai',
-//         'x',
-//         'grok',
-//     ],
-//     vercel: [
-//         'vercel',
-//         'v0',
-//     ],
-// };
-
-const providerFunctions = {
-    // openai: openai,
-    anthropic: anthropic,
-    // google: google,
-    // xai: xai,
-    // vercel: vercel,
-};
-
-// type ProviderKey = keyof typeof providerFunctions;
 type Thread = InferSelectModel<typeof threadsTable>;
 type ThreadInsert = InferInsertModel<typeof threadsTable>;
 
@@ -74,33 +38,29 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     try {
         console.log(`📥 [${requestId}] Parsing request body`);
-        const { text: userPrompt, id: thread_id, isPublic = false } = await request.json();
+        const { text: userPrompt, id: thread_id, parentMessageId, provider: requestedProvider, model: requestedModel, mode: requestedMode } = await request.json();
         
         console.log(`📝 [${requestId}] Request payload.`);
+
+        // Without text, the request regenerates the reply to the user message parentMessageId
+        const isRegenerate = userPrompt === undefined;
         
-        // TODO: Use category and mode for context-specific prompts
         let current_thread_id: string | undefined = thread_id;
 
-        // TEMPORARY: Auth disabled for testing
-        // const auth = locals?.auth;
-        // if (!auth) {
-        //     console.error(`❌ [${requestId}] Authentication required but not provided`);
-        //     return new Response(
-        //         JSON.stringify({ status: 'error', error: 'Authentication required' }),
-        //         {
-        //             status: 401,
-        //             headers: { 'Content-Type': 'application/json' },
-        //         }
-        //     );
-        // }
-
-        // console.log(`🔐 [${requestId}] Authentication found, extracting user info`);
-        // const { userId, sessionClaims } = auth();
-        // const user_email = userId ? ((sessionClaims?.email as string) || null) : null;
-
-        // Use hardcoded email for testing
-        const user_email = config.testingEmail;
-        console.log(`👤 [${requestId}] Using test email:`, user_email);
+        const user = locals.user;
+        if (!user) {
+            console.error(`❌ [${requestId}] Authentication required but not provided`);
+            return new Response(
+                JSON.stringify({ status: 'error', error: 'Authentication required' }),
+                {
+                    status: 401,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const user_email = user.email;
+        console.log(`👤 [${requestId}] Authenticated user:`, user_email);
 
         // Validate email
         console.log(`✅ [${requestId}] Validating user email`);
@@ -116,6 +76,60 @@ export const POST: APIRoute = async ({ request, locals }) => {
         }
         console.log(`✅ [${requestId}] Email validation passed`);
 
+        // Reject malformed messages before creating a thread
+        const messageError =
+            parentMessageId !== undefined && parentMessageId !== null && (typeof parentMessageId !== 'string' || !thread_id)
+                ? 'parentMessageId must be the id of a message in the thread given as id'
+                : isRegenerate && typeof parentMessageId !== 'string'
+                    ? 'text is required (or parentMessageId of a user message, to regenerate its reply)'
+                    : !isRegenerate && (typeof userPrompt !== 'string' || userPrompt.trim() === '')
+                        ? 'text must be a non-empty string'
+                        : null;
+        if (messageError) {
+            console.error(`❌ [${requestId}] Invalid message:`, messageError);
+            return new Response(
+                JSON.stringify({ status: 'error', error: messageError }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        // Reject unknown providers/models before creating a thread
+        const requestedSelection = { provider: requestedProvider, model: requestedModel };
+        const selectionCheck = resolveModelSelection(requestedSelection);
+        if (selectionCheck.status === 'error') {
+            console.error(`❌ [${requestId}] Invalid model selection:`, selectionCheck.error);
+            return new Response(
+                JSON.stringify({ status: 'error', error: selectionCheck.error }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        // Reject unknown modes before creating a thread
+        if (!resolveModeKey(requestedMode)) {
+            console.error(`❌ [${requestId}] Unknown mode:`, requestedMode);
+            return new Response(
+                JSON.stringify({ status: 'error', error: `Unknown mode "${requestedMode}"` }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        // Check the monthly budget before creating threads or calling the model
+        console.log(`💳 [${requestId}] Checking monthly budget for user:`, user_email);
+        let budgetStatus = await getBudgetStatus(user_email);
+        if (budgetStatus.exceeded) {
+            console.error(`❌ [${requestId}] Monthly budget exceeded for user:`, user_email, budgetStatus.monthly);
+            return budgetExceededResponse(budgetStatus);
+        }
+
         // Create a new thread if none provided
         let isNewThread = false;
         
@@ -129,7 +143,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
                     const userThreads = await db.select().from(threadsTable).where(eq(threadsTable.email, user_email));
                     console.log(`📊 [${requestId}] User thread count:`, userThreads.length, '/', config.maxThreadsPerUser);
                     
-                    if (userThreads.length >= config.maxThreadsPerUser && user_email !== config.testingEmail) {
+                    if (userThreads.length >= config.maxThreadsPerUser) {
                         console.error(`❌ [${requestId}] Thread limit exceeded for user:`, user_email);
                         return new Response(
                             JSON.stringify({ 
@@ -156,7 +170,6 @@ export const POST: APIRoute = async ({ request, locals }) => {
                     title: '',
                     thread: { messages: [] },
                     email: user_email,
-                    isPublic: isPublic,
                     isDev: import.meta.env.NODE_ENV === 'development'
                 };
                 
@@ -184,6 +197,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
         // --- Load System Prompt and Initialize Conversation History ---
         console.log(`🎯 [${requestId}] Loading system prompt`);
 
+        // Replaced with the mode's prompt once the thread (and its saved mode) is loaded
         const systemPrompt = config.systemPrompt;
         console.log(`📝 [${requestId}] System prompt loaded.`);
         
@@ -193,6 +207,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
         }
         
         let convoHistory: any[] = [systemObj];
+        let tree: ThreadTree = { messages: [], activeMessageId: null };
         console.log(`🔄 [${requestId}] Initialized conversation history with system message`);
 
         // --- Conversation History Fetch from DB ---
@@ -208,7 +223,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
                     console.log(`📋 [${requestId}] Thread data loaded.`);
                     
                     // Check thread ownership
-                    if (userData.email && userData.email !== user_email) {
+                    if (userData.email !== user_email) {
                         console.error(`❌ [${requestId}] Unauthorized access attempt:`, {
                             threadOwner: userData.email,
                             requestingUser: user_email
@@ -222,20 +237,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
                         );
                     }
                     
-                    if (
-                        userData.thread &&
-                        typeof userData.thread === 'object' &&
-                        'messages' in userData.thread &&
-                        Array.isArray((userData.thread as { messages: any[] }).messages)
-                    ) {
-                        // Filter out any system messages from DB (they should be runtime-only)
-                        const messagesFromDB = (userData.thread as { messages: any[] }).messages.filter(
-                            (msg: any) => msg.role !== 'system'
-                        );
-                        convoHistory = [systemObj, ...messagesFromDB];
-                        console.log(`💬 [${requestId}] Conversation history loaded with system message.`);
-                    } else {
-                        console.log(`⚠️ [${requestId}] No valid conversation history found in thread data, keeping system message only`);
+                    // Every branch of the conversation (system messages are dropped, they are runtime-only)
+                    tree = readThreadTree(userData.thread);
+                    console.log(`💬 [${requestId}] Conversation tree loaded with ${tree.messages.length} message(s).`);
+
+                    // Check the thread budget now that the thread's cost is known
+                    console.log(`💳 [${requestId}] Checking thread budget`);
+                    budgetStatus = await getBudgetStatus(user_email, Number(userData.cost || 0));
+                    if (budgetStatus.exceeded) {
+                        console.error(`❌ [${requestId}] Budget exceeded:`, budgetStatus.exceeded, budgetStatus.thread);
+                        return budgetExceededResponse(budgetStatus);
                     }
                 } else {
                     console.log(`⚠️ [${requestId}] Thread not found in database, using system message only:`, current_thread_id);
@@ -254,30 +265,63 @@ export const POST: APIRoute = async ({ request, locals }) => {
             console.log(`🆕 [${requestId}] No thread ID provided, using system message only`);
         }
 
+        // --- Pick the branch to continue ---
+        // parentMessageId is the message the new user message follows (null: a new first message, e.g. an
+        // edit of the first one), or without text the user message whose reply is regenerated.
+        // Otherwise the branch being shown is continued.
+        const parentId: string | null = parentMessageId === undefined ? tree.activeMessageId : parentMessageId;
+        const parentMessage = parentId ? findMessage(tree.messages, parentId) : undefined;
+        if ((parentId && !parentMessage) || (isRegenerate && parentMessage?.role !== 'user')) {
+            const error = parentId && !parentMessage
+                ? `Unknown parentMessageId "${parentId}"`
+                : 'Only the reply to a user message can be regenerated';
+            console.error(`❌ [${requestId}] Invalid branch:`, error);
+            return new Response(
+                JSON.stringify({ status: 'error', error }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        convoHistory = [systemObj, ...toModelMessages(getMessagePath(tree.messages, parentId))];
+        console.log(`🌿 [${requestId}] Continuing branch with ${convoHistory.length - 1} message(s)${isRegenerate ? ', regenerating the reply' : ''}`);
+
         // --- Append new user message ---
+        // None when regenerating: the reply follows the existing user message
+        const newMessages: ThreadMessage[] = isRegenerate ? [] : chainMessages([{ role: 'user', content: userPrompt }], parentId);
+        const userMessage = newMessages[0] || parentMessage!;
+        const replyMessageId = nanoid();
         console.log(`➕ [${requestId}] Adding user message to conversation history`);
-        convoHistory.push({ role: 'user', content: userPrompt });
+        convoHistory.push(...toModelMessages(newMessages));
         console.log(`📊 [${requestId}] Updated conversation history.`);
 
+        // --- Mode selection ---
+        // The request's choice wins, then the mode saved on the thread, then config.defaultMode
+        const modeKey = resolveModeKey(requestedMode, userData?.mode) || config.defaultMode;
+        const mode = getMode(modeKey) || getMode(config.defaultMode)!;
+        systemObj.content = getModeSystemPrompt(mode);
+        console.log(`🎛️ [${requestId}] Using mode:`, modeKey);
+
         // --- Model/Provider selection ---
+        // The request's choice wins, then the choice saved on the thread, then the defaults
         console.log(`🤖 [${requestId}] Selecting AI model and provider`);
-        let userModel = config.model;
-        let userProvider = config.provider;
-
-        console.log(`🔍 [${requestId}] Initial model/provider selection.`);
-
-        userProvider = config.provider;
-        let provider = providerFunctions[userProvider as keyof typeof providerFunctions] ? userProvider : config.providerFunction;
-
-        if (!provider) {
-            console.log(`⚠️ [${requestId}] Provider/model validation failed, using defaults`);
-            userModel = config.model;
-            provider = config.provider;
+        const selection = resolveModelSelection(requestedSelection, {
+            provider: userData?.provider,
+            model: userData?.model,
+        });
+        if (selection.status === 'error') {
+            throw new Error(selection.error);
         }
 
-        let aiModel = providerFunctions[provider as keyof typeof providerFunctions](userModel) as LanguageModel;
+        const userProvider = selection.provider;
+        const userModel = selection.model;
+        console.log(`🔍 [${requestId}] Using ${userProvider}:${userModel}`);
+
+        const aiModel = getLanguageModel({ provider: userProvider, model: userModel });
 
-        const tools = config.tools || {};
+        const tools = mode.tools || config.tools || {};
 
         // --- AI Generation with Streaming ---
         console.log(`🧠 [${requestId}] Starting AI text streaming with pre-built conversation history`);
@@ -286,27 +330,46 @@ export const POST: APIRoute = async ({ request, locals }) => {
         try {
             console.log(`📤 [${requestId}] Sending to AI model with stopWhen enabled for tool feedback loops.`);
 
+            // Set by onFinish, which the AI SDK awaits before the full stream ends,
+            // so they can be sent as the last events of the response
+            let finalTitle: string | undefined;
+            let requestCost: number | null = null;
+
             const result = streamText({
                 model: aiModel,
                 messages: convoHistory,
                 tools: tools,
                 stopWhen: stepCountIs(10), // Allow up to 10 rounds of tool calls for longer feedback loops
-                onFinish: async ({ text: generatedText, finishReason, usage, steps }) => {
+                onFinish: async ({ finishReason, totalUsage, steps, response }) => {
                     // This runs after streaming completes
                     console.log(`✅ [${requestId}] AI generation completed.`);
                     console.log(`🔧 [${requestId}] Finish reason:`, finishReason);
                     console.log(`🔄 [${requestId}] Steps taken:`, steps?.length || 1);
 
+                    // Usage of every model call in this request, recorded once the thread is saved
+                    const usageRecords: Array<Pick<UsageRecord, 'kind' | 'usage' | 'steps'>> = [
+                        { kind: 'message', usage: totalUsage, steps: steps.map(step => step.usage) },
+                    ];
+
                     // --- Append AI response to history ---
-                    console.log(`➕ [${requestId}] Adding AI response to conversation history`);
-                    const updatedHistory = [...convoHistory, { role: 'assistant', content: generatedText }];
+                    // response.messages holds every step: assistant tool calls, tool results and the final answer,
+                    // so follow-up turns can reuse what the tools already fetched
+                    console.log(`➕ [${requestId}] Adding AI response (${response.messages.length} message(s)) to conversation history`);
+                    const updatedHistory = [...convoHistory, ...response.messages];
+                    const textHistory = toTextMessages(updatedHistory);
+
+                    // The reply becomes the end of the branch being shown
+                    const replyMessages = chainMessages(response.messages, userMessage.id, replyMessageId);
+                    const activeMessageId = replyMessages.at(-1)?.id ?? userMessage.id;
 
                     // --- Generate conversation title ---
                     let convoTitle = userData?.title;
                     if (!convoTitle) {
                         console.log(`🏷️ [${requestId}] Generating conversation title`);
                         try {
-                            convoTitle = await generateTitle(updatedHistory, userModel, userProvider);
+                            const titleResult = await generateTitle(textHistory, aiModel, { provider: userProvider, model: userModel });
+                            convoTitle = titleResult.title;
+                            usageRecords.push({ kind: 'title', usage: titleResult.usage });
                             console.log(`✅ [${requestId}] Title generated successfully.`);
                         } catch (error) {
                             console.error(`❌ [${requestId}] Error generating title:`, error);
@@ -315,48 +378,85 @@ export const POST: APIRoute = async ({ request, locals }) => {
                     } else {
                         console.log(`🏷️ [${requestId}] Using existing title:`, convoTitle);
                     }
+                    finalTitle = convoTitle;
+
+                    // --- Extract structured stack recommendation ---
+                    // Keep the previous stack when the latest answer did not recommend one
+                    let stack = userData?.thread?.stack || null;
+                    let stackExtracted = false;
+                    console.log(`🧱 [${requestId}] Extracting stack recommendation`);
+                    try {
+                        const { stack: extractedStack, usage: stackUsage } = await generateStackRecommendation(textHistory, aiModel);
+                        usageRecords.push({ kind: 'stack', usage: stackUsage });
+                        if (extractedStack) {
+                            stack = extractedStack;
+                            stackExtracted = true;
+                            console.log(`✅ [${requestId}] Stack recommendation extracted with ${extractedStack.entries.length} entries`);
+                        } else {
+                            console.log(`ℹ️ [${requestId}] No stack recommendation in latest answer`);
+                        }
+                    } catch (error) {
+                        console.error(`❌ [${requestId}] Error extracting stack recommendation:`, error);
+                    }
 
                     // --- Save updated history back to DB ---
                     console.log(`💾 [${requestId}] Saving conversation to database`);
 
-                    // Filter out system messages before saving
-                    const messagesToSave = updatedHistory.filter((msg: any) => msg.role !== 'system');
+                    // Every branch: the stored tree plus the new user message and the reply
+                    const addedMessages = [...newMessages, ...replyMessages];
+                    const messagesToSave = [...tree.messages, ...addedMessages];
+
+                    // Append to the tree as stored now, not as read when the request started:
+                    // the row is locked and re-read, so replies generated at the same time
+                    // (another tab, a regenerate and an edit) keep each other's branches
+                    const saveToThread = (threadId: string) => db.transaction(async (tx) => {
+                        const [current] = await tx
+                            .select({ thread: threadsTable.thread })
+                            .from(threadsTable)
+                            .where(eq(threadsTable.id, threadId))
+                            .for('update');
+                        const storedMessages = readThreadTree(current?.thread).messages;
+
+                        await tx
+                            .update(threadsTable)
+                            .set({
+                                title: convoTitle,
+                                thread: {
+                                    messages: mergeMessages(storedMessages, addedMessages),
+                                    activeMessageId,
+                                    // Keep a stack saved meanwhile unless this answer recommended one
+                                    stack: stackExtracted ? stack : current?.thread?.stack ?? stack,
+                                },
+                                provider: userProvider,
+                                model: userModel,
+                                mode: modeKey,
+                                updatedAt: new Date(),
+                                isDev: import.meta.env.NODE_ENV === 'development' ? true : false,
+                            })
+                            .where(eq(threadsTable.id, threadId));
+                    });
 
                     try {
                         if (current_thread_id && userData) {
                             console.log(`🔄 [${requestId}] Updating existing thread`);
-                            await db
-                                .update(threadsTable)
-                                .set({
-                                    title: convoTitle,
-                                    thread: { messages: messagesToSave },
-                                    updatedAt: new Date(),
-                                    isDev: import.meta.env.NODE_ENV === 'development' ? true : false,
-                                })
-                                .where(eq(threadsTable.id, current_thread_id));
+                            await saveToThread(current_thread_id);
                             console.log(`✅ [${requestId}] Thread updated successfully`);
                         } else if (current_thread_id && !userData && !isNewThread) {
                             console.log(`🆕 [${requestId}] Inserting new thread with provided ID`);
                             await db.insert(threadsTable).values({
                                 id: current_thread_id,
                                 title: convoTitle || '',
-                                thread: { messages: messagesToSave },
+                                thread: { messages: messagesToSave, activeMessageId, stack },
+                                provider: userProvider,
+                                model: userModel,
+                                mode: modeKey,
                                 email: user_email,
-                                isPublic: isPublic,
                                 isDev: import.meta.env.NODE_ENV === 'development'
                             } as ThreadInsert);
                             console.log(`✅ [${requestId}] New thread inserted successfully`);
                         } else if (isNewThread) {
                             console.log(`🔄 [${requestId}] Updating newly created thread`);
-                            await db
-                                .update(threadsTable)
-                                .set({
-                                    title: convoTitle,
-                                    thread: { messages: messagesToSave },
-                                    updatedAt: new Date(),
-                                    isDev: import.meta.env.NODE_ENV === 'development' ? true : false,
-                                })
-                                .where(eq(threadsTable.id, current_thread_id));
+                            await saveToThread(current_thread_id);
                             console.log(`✅ [${requestId}] New thread updated successfully`);
                         }
 
@@ -365,22 +465,143 @@ export const POST: APIRoute = async ({ request, locals }) => {
                         console.error(`❌ [${requestId}] Error saving conversation to database:`, error);
                     }
 
+                    // --- Record token usage and cost ---
+                    console.log(`💰 [${requestId}] Recording usage for ${usageRecords.length} model call(s)`);
+                    if (current_thread_id) {
+                        requestCost = 0;
+                        for (const record of usageRecords) {
+                            try {
+                                requestCost += await recordUsage({
+                                    ...record,
+                                    threadId: current_thread_id,
+                                    email: user_email,
+                                    requestId,
+                                    provider: userProvider,
+                                    model: userModel,
+                                });
+                            } catch (error) {
+                                console.error(`❌ [${requestId}] Error recording ${record.kind} usage:`, error);
+                            }
+                        }
+                        console.log(`💰 [${requestId}] Request cost: $${requestCost.toFixed(6)}`);
+                    }
+
                     console.log(`🎉 [${requestId}] Request completed successfully.`);
                 },
             });
 
-            // Return streaming response with metadata in headers
-            const responseHeaders: Record<string, string> = {};
+            // Stream tool activity, step boundaries and the answer as server-sent events (see lib/chatStream.ts)
+            const encoder = new TextEncoder();
+            let clientGone = false;
+
+            const stream = new ReadableStream<Uint8Array>({
+                async start(controller) {
+                    const send = (event: ChatStreamEvent) => {
+                        if (!clientGone) {
+                            controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+                        }
+                    };
+                    const toolLabels = new Map<string, string>();
+                    let step = 0;
+
+                    send({
+                        type: 'thread',
+                        threadId: current_thread_id!,
+                        title: userData?.title || null,
+                        model: `${userProvider}:${userModel}`,
+                        mode: modeKey,
+                        userMessageId: userMessage.id,
+                        parentMessageId: userMessage.parentId,
+                        replyMessageId,
+                    });
+
+                    // Keep reading after the client disconnects so onFinish still saves the thread
+                    try {
+                        for await (const part of result.fullStream) {
+                            switch (part.type) {
+                                case 'start-step':
+                                    step++;
+                                    send({ type: 'step-start', step });
+                                    break;
+                                case 'finish-step':
+                                    send({ type: 'step-finish', step, finishReason: part.finishReason });
+                                    break;
+                                case 'text-delta':
+                                    send({ type: 'text', text: part.text });
+                                    break;
+                                case 'tool-call': {
+                                    const label = describeToolCall(part.toolName, part.input);
+                                    toolLabels.set(part.toolCallId, label);
+                                    console.log(`🔧 [${requestId}] ${label}`);
+                                    send({ type: 'tool-start', toolCallId: part.toolCallId, toolName: part.toolName, label });
+                                    break;
+                                }
+                                case 'tool-result':
+                                    if (!part.preliminary) {
+                                        send({
+                                            type: 'tool-finish',
+                                            toolCallId: part.toolCallId,
+                                            toolName: part.toolName,
+                                            label: toolLabels.get(part.toolCallId) || part.toolName,
+                                            ...describeToolResult(part.output),
+                                        });
+
+                                        const comparison = part.toolName === 'compareStacks' ? readComparison(part.output) : null;
+                                        if (comparison) {
+                                            send({ type: 'comparison', toolCallId: part.toolCallId, comparison });
+                                        }
+                                    }
+                                    break;
+                                case 'tool-error':
+                                    send({
+                                        type: 'tool-finish',
+                                        toolCallId: part.toolCallId,
+                                        toolName: part.toolName,
+                                        label: toolLabels.get(part.toolCallId) || part.toolName,
+                                        success: false,
+                                        message: part.error instanceof Error ? part.error.message : String(part.error),
+                                    });
+                                    break;
+                                case 'error':
+                                    console.error(`❌ [${requestId}] AI stream error:`, part.error);
+                                    send({ type: 'error', error: part.error instanceof Error ? part.error.message : String(part.error) });
+                                    break;
+                            }
+                        }
+
+                        if (finalTitle) {
+                            send({ type: 'title', title: finalTitle });
+                        }
+                        if (requestCost !== null) {
+                            send({ type: 'cost', requestCost, threadCost: Number(userData?.cost || 0) + requestCost });
+                        }
+                    } catch (error) {
+                        console.error(`❌ [${requestId}] AI stream failed:`, error);
+                        send({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+                    }
+
+                    send({ type: 'done' });
+                    if (!clientGone) {
+                        controller.close();
+                    }
+                },
+                cancel() {
+                    clientGone = true;
+                    console.log(`🔌 [${requestId}] Client disconnected, finishing generation in the background`);
+                },
+            });
+
+            // Metadata is also sent in headers (the budget ones are read before the stream)
+            const responseHeaders: Record<string, string> = { ...chatStreamHeaders, ...getBudgetHeaders(budgetStatus) };
             if (current_thread_id) {
                 responseHeaders['X-Thread-ID'] = current_thread_id;
             }
             if (userData?.title) {
                 responseHeaders['X-Thread-Title'] = userData.title;
             }
+            responseHeaders['X-Model'] = `${userProvider}:${userModel}`;
 
-            return result.toTextStreamResponse({
-                headers: responseHeaders,
-            });
+            return new Response(stream, { headers: responseHeaders });
         } catch (error) {
             const aiEndTime = Date.now();
             const aiDuration = aiEndTime - aiStartTime;
@@ -417,14 +638,34 @@ export const POST: APIRoute = async ({ request, locals }) => {
     }
 };
 
-async function generateTitle(convoHistory: any[], userModel: string, provider: string) {
+/**
+ * 402 response for a request refused because a spending limit was reached
+ */
+function budgetExceededResponse(budgetStatus: BudgetStatus) {
+    return new Response(
+        JSON.stringify({
+            status: 'error',
+            error: getBudgetErrorMessage(budgetStatus),
+            budget: budgetStatus,
+        }),
+        {
+            status: 402,
+            headers: {
+                'Content-Type': 'application/json',
+                ...getBudgetHeaders(budgetStatus),
+            },
+        }
+    );
+}
+
+async function generateTitle(convoHistory: any[], aiModel: LanguageModel, { provider, model }: ModelSelection) {
     const titleRequestId = nanoid();
     console.log(`🏷️ [${titleRequestId}] Starting title generation.`);
     
     try {
         // const titleStartTime = Date.now();
-        const { text: generatedText } = await generateText({
-            model: providerFunctions[provider as keyof typeof providerFunctions](userModel) as LanguageModel,
+        const { text: generatedText, usage } = await generateText({
+            model: aiModel,
             messages: [
                 {
                     role: 'system',
@@ -450,14 +691,14 @@ async function generateTitle(convoHistory: any[], userModel: string, provider: s
         
         console.log(`✅ [${titleRequestId}] Title generation completed.`);
         
-        return plainText;
+        return { title: plainText, usage };
     } catch (error) {
         console.error(`❌ [${titleRequestId}] Error in generateTitle:`, error);
         console.error(`❌ [${titleRequestId}] Title generation error details:`, {
             errorName: error instanceof Error ? error.name : 'Unknown',
             errorMessage: error instanceof Error ? error.message : String(error),
             conversationLength: convoHistory.length,
-            model: userModel,
+            model: model,
             provider: provider
         });
         throw error;
@@ -0,0 +1,105 @@
+import type { APIRoute } from 'astro';
+
+import { getThread } from '../../lib/getThread';
+import { listScaffoldTree, scaffoldStack, zipScaffold } from '../../lib/scaffold';
+
+const MAX_STACK_SIZE = 30;
+
+/**
+ * GET /api/scaffold?stack=Next.js&stack=Supabase&name=my-app&format=zip|json
+ * GET /api/scaffold?thread=<id>&format=zip|json
+ *
+ * Generates a starter project for a stack (see lib/scaffold): package.json,
+ * .env.example, docker-compose.yml for local services, config files and a README
+ * with the setup steps. The stack is given as stack parameters (repeated or
+ * comma-separated) or taken from a thread's stack recommendation; the project
+ * name defaults to the thread title.
+ * format=zip (default) downloads the archive; format=json returns the file tree,
+ * the files and which services had no template.
+ * Returns 401 if the user is not signed in, 404 if the thread is not found or not
+ * accessible, 400 if there is no stack.
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+    if (!locals.user) {
+        return new Response(
+            JSON.stringify({ error: 'Authentication required' }),
+            {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    const format = url.searchParams.get('format') || 'zip';
+    if (format !== 'zip' && format !== 'json') {
+        return new Response(
+            JSON.stringify({ error: 'format must be one of: zip, json' }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        let stack = url.searchParams.getAll('stack').flatMap(value => value.split(',')).map(name => name.trim()).filter(Boolean);
+        let projectName = url.searchParams.get('name') || undefined;
+
+        const threadId = url.searchParams.get('thread');
+        if (threadId) {
+            const threadData = await getThread(threadId, locals.user.email);
+            if (!threadData) {
+                return new Response(
+                    JSON.stringify({ error: 'Thread not found or unauthorized' }),
+                    {
+                        status: 404,
+                        headers: { 'Content-Type': 'application/json' },
+                    }
+                );
+            }
+            stack = threadData.stack?.entries.map(entry => entry.name) || [];
+            projectName ??= threadData.title || undefined;
+        }
+
+        if (stack.length === 0 || stack.length > MAX_STACK_SIZE) {
+            return new Response(
+                JSON.stringify({ error: threadId ? 'This thread has no stack recommendation yet' : `Pass 1-${MAX_STACK_SIZE} product names as stack parameters` }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const scaffold = await scaffoldStack(stack, { projectName });
+
+        if (format === 'json') {
+            return new Response(
+                JSON.stringify({ ...scaffold, tree: listScaffoldTree(scaffold) }),
+                {
+                    status: 200,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        return new Response(new Uint8Array(zipScaffold(scaffold)), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': `attachment; filename="${scaffold.projectName}.zip"`,
+            },
+        });
+    } catch (error) {
+        console.error('Error generating scaffold:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to generate scaffold' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -0,0 +1,62 @@
+import type { APIRoute } from 'astro';
+
+import { getSharedThread } from '../../../../lib/getThread';
+import { exportContents, exportFormats, exportThread, type ExportContent, type ExportFormat } from '../../../../lib/threadExport';
+
+/**
+ * GET /api/share/[token]/export?format=md|html|json&content=conversation|recommendation
+ *
+ * Downloads a shared thread as a document, like /api/thread/[id]/export, with the
+ * share token in place of the thread ID. Needs no sign-in: anyone with the share
+ * link may export the thread.
+ * Returns 404 if no thread is shared under the token (e.g. sharing was stopped).
+ */
+export const GET: APIRoute = async ({ params, url }) => {
+    const format = (url.searchParams.get('format') || 'md') as ExportFormat;
+    const content = (url.searchParams.get('content') || 'conversation') as ExportContent;
+
+    if (!exportFormats.includes(format) || !exportContents.includes(content)) {
+        return new Response(
+            JSON.stringify({ error: `format must be one of: ${exportFormats.join(', ')}; content one of: ${exportContents.join(', ')}` }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const threadData = params.token ? await getSharedThread(params.token, { includeSources: true }) : null;
+
+        if (!threadData) {
+            return new Response(
+                JSON.stringify({ error: 'Share link not found' }),
+                {
+                    status: 404,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const file = await exportThread(threadData, { format, content });
+
+        return new Response(file.body, {
+            status: 200,
+            headers: {
+                'Content-Type': file.contentType,
+                'Content-Disposition': `attachment; filename="${file.filename}"`,
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting shared thread:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to export thread' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -1,14 +1,20 @@
 import type { APIRoute } from 'astro';
-import { getThread } from '../../../lib/getThread';
+import { eq } from 'drizzle-orm';
+import { db } from '../../../db/initialize';
+import { threadsTable } from '../../../db/schema';
+import { findOwnedThread, getThread, type Thread } from '../../../lib/getThread';
+import { findMessage, getLatestLeaf, readThreadTree } from '../../../lib/threadTree';
 
 /**
- * GET /api/thread/[id]
+ * GET /api/thread/[id]?sources=1
  *
- * Fetches thread data by ID including message history and title.
- * Returns 404 if thread not found.
- * Returns 403 if user doesn't own the thread (unless it's public).
+ * Fetches thread data by ID including message history, title and the
+ * structured stack recommendation (if one has been generated).
+ * With ?sources=1 each answer also carries the tool calls and results behind it.
+ * Returns 404 if thread not found or the user doesn't own it
+ * (shared threads are read through their share link, /share/[token]).
  */
-export const GET: APIRoute = async ({ params }) => {
+export const GET: APIRoute = async ({ params, url, locals }) => {
     const threadId = params.id;
 
     if (!threadId) {
@@ -22,7 +28,9 @@ export const GET: APIRoute = async ({ params }) => {
     }
 
     try {
-        const threadData = await getThread(threadId);
+        const threadData = await getThread(threadId, locals.user?.email, {
+            includeSources: url.searchParams.has('sources'),
+        });
 
         if (!threadData) {
             return new Response(
@@ -53,4 +61,158 @@ export const GET: APIRoute = async ({ params }) => {
     }
 };
 
+
+/**
+ * PATCH /api/thread/[id]
+ *
+ * Updates a thread's title, or switches the branch shown.
+ * Body: { title?: string, activeMessageId?: string }
+ * activeMessageId picks a message version (see lib/threadTree.ts); the branch
+ * opens at its newest continuation.
+ * Only the thread owner may update it.
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+    try {
+        const thread = await findOwnedThread(params.id, locals.user?.email);
+        if (thread instanceof Response) {
+            return thread;
+        }
+
+        let body: { title?: unknown; activeMessageId?: unknown } = {};
+        try {
+            body = await request.json();
+        } catch {
+            // Reported below as nothing to update
+        }
+
+        const { title, activeMessageId } = body;
+        const updates: Partial<Pick<Thread, 'title'>> = {};
+
+        if (title !== undefined) {
+            if (typeof title !== 'string' || title.trim() === '') {
+                return new Response(
+                    JSON.stringify({ error: 'title must be a non-empty string' }),
+                    {
+                        status: 400,
+                        headers: { 'Content-Type': 'application/json' },
+                    }
+                );
+            }
+            updates.title = title.trim().slice(0, 200);
+        }
+
+        const invalidActiveMessage = new Response(
+            JSON.stringify({ error: 'activeMessageId must be the id of a message in the thread' }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+
+        if (activeMessageId !== undefined && typeof activeMessageId !== 'string') {
+            return invalidActiveMessage;
+        }
+
+        if (Object.keys(updates).length === 0 && activeMessageId === undefined) {
+            return new Response(
+                JSON.stringify({ error: 'Nothing to update (expected title or activeMessageId)' }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        // Switch branches on the locked, current tree so a reply saved meanwhile
+        // (e.g. from another tab) is not overwritten (see saveToThread in generate.ts)
+        const updated = await db.transaction(async (tx) => {
+            const threadUpdates: Partial<Pick<Thread, 'title' | 'thread'>> = { ...updates };
+
+            if (typeof activeMessageId === 'string') {
+                const [current] = await tx
+                    .select({ thread: threadsTable.thread })
+                    .from(threadsTable)
+                    .where(eq(threadsTable.id, thread.id))
+                    .for('update');
+                const tree = readThreadTree(current?.thread);
+
+                if (!findMessage(tree.messages, activeMessageId)) {
+                    return null;
+                }
+                threadUpdates.thread = {
+                    ...current?.thread,
+                    messages: tree.messages,
+                    activeMessageId: getLatestLeaf(tree.messages, activeMessageId),
+                };
+            }
+
+            const [row] = await tx
+                .update(threadsTable)
+                .set({ ...threadUpdates, updatedAt: new Date() })
+                .where(eq(threadsTable.id, thread.id))
+                .returning({
+                    id: threadsTable.id,
+                    title: threadsTable.title,
+                    isPublic: threadsTable.isPublic,
+                    updatedAt: threadsTable.updatedAt,
+                });
+            return row;
+        });
+
+        if (!updated) {
+            return invalidActiveMessage;
+        }
+
+        return new Response(
+            JSON.stringify(updated),
+            {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error updating thread:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to update thread' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * DELETE /api/thread/[id]
+ *
+ * Permanently deletes a thread. Only the thread owner may delete it.
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+    try {
+        const thread = await findOwnedThread(params.id, locals.user?.email);
+        if (thread instanceof Response) {
+            return thread;
+        }
+
+        await db.delete(threadsTable).where(eq(threadsTable.id, thread.id));
+
+        return new Response(
+            JSON.stringify({ status: 'success', id: thread.id }),
+            {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error deleting thread:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to delete thread' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
 export const prerender = false;
@@ -0,0 +1,64 @@
+import type { APIRoute } from 'astro';
+
+import { getThread } from '../../../../lib/getThread';
+import { exportContents, exportFormats, exportThread, type ExportContent, type ExportFormat } from '../../../../lib/threadExport';
+
+/**
+ * GET /api/thread/[id]/export?format=md|html|json&content=conversation|recommendation
+ *
+ * Downloads the thread as a document: title, recommended stack, the conversation
+ * (or with content=recommendation only the final answer), a source/documentation
+ * link appendix and the cost (see lib/threadExport.ts). html is print-ready for PDF.
+ * Defaults: format=md, content=conversation.
+ * Only the thread owner may export it.
+ * Returns 404 if the thread is not found or not accessible.
+ */
+export const GET: APIRoute = async ({ params, url, locals }) => {
+    const format = (url.searchParams.get('format') || 'md') as ExportFormat;
+    const content = (url.searchParams.get('content') || 'conversation') as ExportContent;
+
+    if (!exportFormats.includes(format) || !exportContents.includes(content)) {
+        return new Response(
+            JSON.stringify({ error: `format must be one of: ${exportFormats.join(', ')}; content one of: ${exportContents.join(', ')}` }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const threadData = params.id ? await getThread(params.id, locals.user?.email, { includeSources: true }) : null;
+
+        if (!threadData) {
+            return new Response(
+                JSON.stringify({ error: 'Thread not found or unauthorized' }),
+                {
+                    status: 404,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const file = await exportThread(threadData, { format, content });
+
+        return new Response(file.body, {
+            status: 200,
+            headers: {
+                'Content-Type': file.contentType,
+                'Content-Disposition': `attachment; filename="${file.filename}"`,
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting thread:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to export thread' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -0,0 +1,96 @@
+import type { APIRoute } from 'astro';
+import { eq } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+import { db } from '../../../../db/initialize';
+import { threadsTable } from '../../../../db/schema';
+import config from '../../../../lib/config';
+import { findOwnedThread } from '../../../../lib/getThread';
+import { findMessage, getMessagePath, getTurnEnd, readThreadTree } from '../../../../lib/threadTree';
+
+/**
+ * POST /api/thread/[id]/fork
+ *
+ * Copies the conversation up to a message into a new thread, which can then
+ * be continued separately. Forking at a user message keeps its reply (the
+ * turn is copied whole). Mode, model and the stack recommendation carry over.
+ * Body: { messageId: string }
+ * Only the thread owner may fork it. Returns 201 with { id, title }.
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+    try {
+        const thread = await findOwnedThread(params.id, locals.user?.email);
+        if (thread instanceof Response) {
+            return thread;
+        }
+
+        let messageId: unknown;
+        try {
+            ({ messageId } = await request.json());
+        } catch {
+            messageId = undefined;
+        }
+
+        const tree = readThreadTree(thread.thread);
+
+        if (typeof messageId !== 'string' || !findMessage(tree.messages, messageId)) {
+            return new Response(
+                JSON.stringify({ error: 'messageId must be the id of a message in the thread' }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const userThreads = await db.select({ id: threadsTable.id }).from(threadsTable).where(eq(threadsTable.email, thread.email!));
+        if (userThreads.length >= config.maxThreadsPerUser) {
+            return new Response(
+                JSON.stringify({
+                    error: `You have reached the maximum limit of ${config.maxThreadsPerUser} threads. Please delete some threads before creating new ones.`,
+                }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const endId = getTurnEnd(tree.messages, messageId);
+        const forked = {
+            id: nanoid(),
+            title: thread.title ? `${thread.title} (fork)` : '',
+            thread: {
+                messages: getMessagePath(tree.messages, endId),
+                activeMessageId: endId,
+                stack: thread.thread?.stack || null,
+            },
+            provider: thread.provider,
+            model: thread.model,
+            mode: thread.mode,
+            email: thread.email,
+            isDev: import.meta.env.NODE_ENV === 'development',
+        };
+
+        await db.insert(threadsTable).values(forked);
+
+        return new Response(
+            JSON.stringify({ id: forked.id, title: forked.title }),
+            {
+                status: 201,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error forking thread:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to fork thread' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -0,0 +1,89 @@
+import type { APIRoute } from 'astro';
+import { eq } from 'drizzle-orm';
+
+import { db } from '../../../../db/initialize';
+import { threadsTable } from '../../../../db/schema';
+import { generateToken } from '../../../../lib/auth';
+import { findOwnedThread } from '../../../../lib/getThread';
+
+/**
+ * POST /api/thread/[id]/share
+ *
+ * Shares the thread: anyone with the returned link can read it (read-only) at
+ * /share/[token]. The token is random and separate from the thread ID. Sharing
+ * an already shared thread returns its current link.
+ * Only the thread owner may share it. Returns { isPublic, shareToken, shareUrl }.
+ */
+export const POST: APIRoute = async ({ params, url, locals }) => {
+    try {
+        const thread = await findOwnedThread(params.id, locals.user?.email);
+        if (thread instanceof Response) {
+            return thread;
+        }
+
+        let shareToken = thread.isPublic ? thread.shareToken : null;
+        if (!shareToken) {
+            shareToken = generateToken();
+            await db
+                .update(threadsTable)
+                .set({ isPublic: true, shareToken })
+                .where(eq(threadsTable.id, thread.id));
+        }
+
+        return new Response(
+            JSON.stringify({ isPublic: true, shareToken, shareUrl: `${url.origin}/share/${shareToken}` }),
+            {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error sharing thread:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to share thread' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+/**
+ * DELETE /api/thread/[id]/share
+ *
+ * Stops sharing the thread and revokes its link; sharing it again creates a new one.
+ * Only the thread owner may change sharing. Returns { isPublic: false }.
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+    try {
+        const thread = await findOwnedThread(params.id, locals.user?.email);
+        if (thread instanceof Response) {
+            return thread;
+        }
+
+        await db
+            .update(threadsTable)
+            .set({ isPublic: false, shareToken: null })
+            .where(eq(threadsTable.id, thread.id));
+
+        return new Response(
+            JSON.stringify({ isPublic: false }),
+            {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error revoking thread share:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to stop sharing thread' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
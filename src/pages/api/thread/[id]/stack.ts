@@ -0,0 +1,88 @@
+import type { APIRoute } from 'astro';
+import { eq } from 'drizzle-orm';
+
+import { db } from '../../../../db/initialize';
+import { threadsTable } from '../../../../db/schema';
+import { extractComparisons, keepComparisonOption } from '../../../../lib/comparison';
+import { findOwnedThread } from '../../../../lib/getThread';
+import { readThreadTree } from '../../../../lib/threadTree';
+
+/**
+ * POST /api/thread/[id]/stack
+ *
+ * Keeps one option of a side-by-side comparison (compareStacks tool) in the
+ * thread's stack: the compared products are replaced by the option's products,
+ * the rest of the stack stays (see lib/comparison.ts).
+ * Body: { toolCallId: string, option: number } (option is the column index)
+ * Only the thread owner may change the stack. Returns { stack }.
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+    try {
+        const thread = await findOwnedThread(params.id, locals.user?.email);
+        if (thread instanceof Response) {
+            return thread;
+        }
+
+        const { toolCallId, option } = await request.json();
+
+        // Read and write the stack on the locked row so a reply saved meanwhile
+        // is not overwritten (see saveToThread in generate.ts)
+        const result = await db.transaction(async (tx) => {
+            const [current] = await tx
+                .select({ thread: threadsTable.thread })
+                .from(threadsTable)
+                .where(eq(threadsTable.id, thread.id))
+                .for('update');
+            const found = extractComparisons(readThreadTree(current?.thread).messages)
+                .find(item => item.toolCallId === toolCallId);
+
+            if (!found) {
+                return { error: 'toolCallId must be the id of a comparison in the thread' };
+            }
+
+            if (!Number.isInteger(option) || option < 0 || option >= found.comparison.options.length) {
+                return { error: `option must be an index from 0 to ${found.comparison.options.length - 1}` };
+            }
+
+            const stack = keepComparisonOption(current.thread?.stack || null, found.comparison, option);
+
+            await tx
+                .update(threadsTable)
+                .set({ thread: { ...current.thread, stack }, updatedAt: new Date() })
+                .where(eq(threadsTable.id, thread.id));
+
+            return { stack };
+        });
+
+        if ('error' in result) {
+            return new Response(
+                JSON.stringify({ error: result.error }),
+                {
+                    status: 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        const { stack } = result;
+
+        return new Response(
+            JSON.stringify({ stack }),
+            {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error updating thread stack:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to update thread stack' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
@@ -0,0 +1,61 @@
+import type { APIRoute } from 'astro';
+import { listThreads } from '../../lib/listThreads';
+
+/**
+ * GET /api/threads?page=1&pageSize=20&sort=updatedAt&order=desc
+ *
+ * Lists the signed-in user's threads, most recently updated first by default.
+ * Returns 401 if the user is not signed in.
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+    if (!locals.user) {
+        return new Response(
+            JSON.stringify({ error: 'Authentication required' }),
+            {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    const sort = url.searchParams.get('sort');
+    const order = url.searchParams.get('order');
+
+    if ((sort && sort !== 'updatedAt' && sort !== 'createdAt') || (order && order !== 'asc' && order !== 'desc')) {
+        return new Response(
+            JSON.stringify({ error: 'sort must be updatedAt or createdAt and order must be asc or desc' }),
+            {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const threadList = await listThreads(locals.user.email, {
+            page: Number(url.searchParams.get('page')) || 1,
+            pageSize: Number(url.searchParams.get('pageSize')) || 20,
+            sort: (sort || 'updatedAt') as 'updatedAt' | 'createdAt',
+            order: (order || 'desc') as 'asc' | 'desc',
+        });
+
+        return new Response(
+            JSON.stringify(threadList),
+            {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error listing threads:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to list threads' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
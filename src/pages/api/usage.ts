@@ -0,0 +1,45 @@
+import type { APIRoute } from 'astro';
+import { getUsageSummary } from '../../lib/usage';
+
+/**
+ * GET /api/usage
+ *
+ * Returns the signed-in user's spending: this calendar month, all time,
+ * this month per thread, and the most recent model calls with token counts.
+ * Returns 401 if the user is not signed in.
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+    if (!locals.user) {
+        return new Response(
+            JSON.stringify({ error: 'Authentication required' }),
+            {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+
+    try {
+        const recentLimit = Math.min(Number(url.searchParams.get('limit')) || 20, 100);
+        const summary = await getUsageSummary(locals.user.email, { recentLimit });
+
+        return new Response(
+            JSON.stringify(summary),
+            {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    } catch (error) {
+        console.error('Error fetching usage:', error);
+        return new Response(
+            JSON.stringify({ error: 'Failed to fetch usage' }),
+            {
+                status: 500,
+                headers: { 'Content-Type': 'application/json' },
+            }
+        );
+    }
+};
+
+export const prerender = false;
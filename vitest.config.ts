@@ -0,0 +1,15 @@
+/// <reference types="vitest/config" />
+import { getViteConfig } from 'astro/config';
+
+// Tests run through Astro's Vite config, so modules using import.meta.glob
+// (the tool registry) load the same as in the app
+export default getViteConfig({
+    test: {
+        include: ['src/**/*.test.ts'],
+        env: {
+            // Never reach a real database or search API from tests
+            POSTGRES_URL: 'postgres://test@localhost:5432/test',
+            SEARCH_PROVIDER: 'mock',
+        },
+    },
+});